@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { AuthResult } from './UserDO';
+import { createNamespace, silenceConsole } from './test-utils';
+
+const { UserDO } = await import('./UserDO');
+const { HandleRegistryDO, getHandleRegistry } = await import('./handles');
+const { UserDirectoryDO, getUserDirectory } = await import('./directory');
+
+// Django 5.1's default: above the 100,000 iterations WebCrypto accepts in Workers
+const DJANGO_PBKDF2 = 'pbkdf2_sha256$870000$Kf2pV8xT1qLmZ7wR3nYc0s$Puh7Nf8K7P2bu9drZS8jmDS/C3Eih1fd2EmauuF8Pg0=';
+
+let env: Record<string, any>;
+let users: ReturnType<typeof createNamespace<InstanceType<typeof UserDO>>>;
+
+const userDO = (email: string) => users.get(users.idFromName(email));
+const storedUser = (email: string) => users.storage(email).get('__user');
+
+describe('UserDO', () => {
+  silenceConsole();
+
+  beforeEach(() => {
+    env = { JWT_SECRET: 'userdo-test-secret' };
+    users = createNamespace(env, UserDO);
+    env.USERDO = users;
+    env.HANDLE_REGISTRY = createNamespace(env, HandleRegistryDO);
+    env.USER_DIRECTORY = createNamespace(env, UserDirectoryDO);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('login replaces an imported hash with the native format', async () => {
+    const email = 'django@example.com';
+    await userDO(email).importUser({ email, passwordHash: DJANGO_PBKDF2 });
+
+    const result = await userDO(email).login({ email, password: 'correct horse battery staple' });
+    expect(result).toHaveProperty('token');
+
+    const { passwordHash } = await storedUser(email);
+    expect(passwordHash).not.toBe(DJANGO_PBKDF2);
+    expect(passwordHash.startsWith('$pbkdf2-sha256$')).toBe(true);
+    await expect(userDO(email).login({ email, password: 'correct horse battery staple' })).resolves.toHaveProperty('token');
+  });
+
+  test('the watermark rejects tokens issued earlier in the same second', async () => {
+    setSystemTime(new Date('2026-01-01T00:00:00.250Z'));
+    const email = 'owner@example.com';
+    const signup = await userDO(email).signup({ email, password: 'Tr0ub4dor&3-horse' }) as AuthResult;
+    const sessionId = JSON.parse(atob(signup.token.split('.')[1])).sid;
+    expect(await userDO(email).verifyToken({ token: signup.token })).toMatchObject({ ok: true });
+
+    // The session survives the change, but its access token must be refreshed
+    setSystemTime(new Date('2026-01-01T00:00:00.750Z'));
+    await userDO(email).changePassword({ oldPassword: 'Tr0ub4dor&3-horse', newPassword: 'c0rrect-h0rse-battery', currentSessionId: sessionId });
+    expect(await userDO(email).verifyToken({ token: signup.token })).toEqual({ ok: false, error: 'Token revoked' });
+
+    const { token } = await userDO(email).refreshToken({ refreshToken: signup.refreshToken });
+    expect(await userDO(email).verifyToken({ token })).toMatchObject({ ok: true });
+  });
+
+  test('deleteUser releases the handle and directory entry with the account', async () => {
+    const email = 'owner@example.com';
+    await userDO(email).signup({ email, password: 'Tr0ub4dor&3-horse' });
+    await userDO(email).setHandle({ handle: 'ada' });
+    expect(await getUserDirectory(env.USER_DIRECTORY).get({ email })).not.toBeNull();
+
+    await userDO(email).deleteUser();
+
+    expect(await storedUser(email)).toBeUndefined();
+    expect(await getHandleRegistry(env.HANDLE_REGISTRY).lookup({ handle: 'ada' })).toBeNull();
+    expect(await getUserDirectory(env.USER_DIRECTORY).get({ email })).toBeNull();
+  });
+
+  test('changePassword and deleteUser refuse an impersonator', async () => {
+    const email = 'owner@example.com';
+    await userDO(email).signup({ email, password: 'Tr0ub4dor&3-horse' });
+    const { token } = await userDO(email).impersonate({ actor: { id: 'staff-1', email: 'staff@example.com' } });
+    const { impersonator } = await userDO(email).verifyToken({ token });
+    expect(impersonator).toEqual({ id: 'staff-1', email: 'staff@example.com' });
+
+    await expect(userDO(email).changePassword({ oldPassword: 'Tr0ub4dor&3-horse', newPassword: 'c0rrect-h0rse-battery', impersonator }))
+      .rejects.toThrow('Not allowed while impersonating');
+    await expect(userDO(email).deleteUser({ impersonator })).rejects.toThrow('Not allowed while impersonating');
+
+    expect(await userDO(email).login({ email, password: 'Tr0ub4dor&3-horse' })).toHaveProperty('token');
+  });
+
+  test('passkey login options do not reveal whether an account or passkey exists', async () => {
+    await userDO('nopasskey@example.com').signup({ email: 'nopasskey@example.com', password: 'Tr0ub4dor&3-horse' });
+
+    for (const email of ['nobody@example.com', 'nopasskey@example.com']) {
+      const first = await userDO(email).createPasskeyLoginOptions({ rpId: 'app.test' });
+      const second = await userDO(email).createPasskeyLoginOptions({ rpId: 'app.test' });
+      expect(first.allowCredentials).toHaveLength(1);
+      expect(first.allowCredentials[0]).toMatchObject({ type: 'public-key', id: expect.any(String) });
+      expect(second.allowCredentials).toEqual(first.allowCredentials);
+      expect(second.challenge).not.toBe(first.challenge);
+    }
+    const decoy = async (email: string) => (await userDO(email).createPasskeyLoginOptions({ rpId: 'app.test' })).allowCredentials[0].id;
+    expect(await decoy('nobody@example.com')).not.toBe(await decoy('nopasskey@example.com'));
+  });
+
+  test('failed passkey assertions count towards the login backoff', async () => {
+    const email = 'owner@example.com';
+    const client = { ip: '203.0.113.7' };
+    const rp = { rpId: 'app.test', origins: ['https://app.test'] };
+    await userDO(email).signup({ email, password: 'Tr0ub4dor&3-horse' });
+    const attempt = async () => {
+      const { allowCredentials } = await userDO(email).createPasskeyLoginOptions({ rpId: rp.rpId });
+      const id = allowCredentials[0].id;
+      return userDO(email).verifyPasskeyLogin({
+        response: { id, rawId: id, type: 'public-key', response: { clientDataJSON: '', authenticatorData: '', signature: '' } },
+        rp,
+        client,
+      });
+    };
+
+    // The fifth failure in a row starts the backoff, for passwords too
+    for (let i = 0; i < 5; i++) await expect(attempt()).rejects.toThrow('Invalid credentials');
+    await expect(attempt()).rejects.toThrow('Too many requests');
+    await expect(userDO(email).login({ email, password: 'Tr0ub4dor&3-horse', client })).rejects.toThrow('Too many requests');
+  });
+});
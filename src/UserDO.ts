@@ -1,19 +1,349 @@
 import { DurableObject } from 'cloudflare:workers';
 import { z } from 'zod';
-import jwt, { JwtData } from '@tsndr/cloudflare-worker-jwt';
-import { UserDODatabase, TableOptions } from './database/index.js';
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import { getKeyRing, type KeyRing } from './keys.js';
+import { UserDODatabase, TableOptions, type StoredRow } from './database/index.js';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from './totp.js';
+import {
+  RateLimitError,
+  consumeWindow,
+  backoffDelay,
+  type UserRateLimits,
+  type WindowRecord,
+  type RateLimiterDO,
+} from './limiter.js';
+import {
+  hashPassword,
+  verifyPassword,
+  needsRehash,
+  detectPasswordHashFormat,
+} from './password.js';
+import { DEFAULT_USER_DO_CONFIG, type UserDOConfig } from './config.js';
+import { getHandleRegistry, handleProblem, normalizeHandle, type HandleRegistryDO } from './handles.js';
+import { getUserDirectory, type DirectoryEntry, type UserDirectoryDO } from './directory.js';
+import { checkPassword, PasswordPolicyError } from './password-policy.js';
+import {
+  generateChallenge,
+  base64UrlEncode,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  COSE_ALG_ES256,
+  COSE_ALG_RS256,
+  WEBAUTHN_CONFIG,
+  type RegistrationResponseJSON,
+  type AuthenticationResponseJSON,
+  type RelyingParty,
+} from './webauthn.js';
+
+// --- Identity Schema ---
+// Extra keys that route to this account: a social login or a confirmed secondary email.
+// Password and passkeys live on their own records.
+const IdentitySchema = z.object({
+  id: z.string(), // "oauth:github:123" or "email:alt@example.com"
+  type: z.enum(['oauth', 'email']),
+  provider: z.string().optional(),
+  subject: z.string().optional(),
+  email: z.string().email().optional(),
+  linkedAt: z.string(),
+});
+type Identity = z.infer<typeof IdentitySchema>;
+
+// --- Session Schemas ---
+// Refresh tokens rotate on every use. Spent ones are kept until they expire so a
+// replay can be recognised and the whole session revoked.
+const RefreshTokenSchema = z.object({
+  jti: z.string(),
+  expiresAt: z.number(),
+  usedAt: z.number().optional(),
+  replacedBy: z.string().optional(),
+});
+
+// One login on one device; its id is the `sid` claim of the tokens issued for it
+const SessionSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  expiresAt: z.number(),
+  userAgent: z.string().optional(),
+  ip: z.string().optional(),
+  country: z.string().optional(),
+  label: z.string().optional(),
+  // App the session's tokens are issued for (their `aud` claim)
+  audience: z.string().optional(),
+  refreshTokens: z.array(RefreshTokenSchema),
+});
+type Session = z.infer<typeof SessionSchema>;
 
 // --- User Schema ---
 const UserSchema = z.object({
   id: z.string(),
   email: z.string().email(),
-  passwordHash: z.string(),
-  salt: z.string(),
+  // PHC string ("$algorithm$params$salt$hash"); absent for accounts created through a social login
+  passwordHash: z.string().optional(),
+  // Only set on hashes from before versioning (bare PBKDF2-SHA256)
+  salt: z.string().optional(),
   createdAt: z.string(),
-  refreshTokens: z.array(z.string()).default([]),
+  sessions: z.array(SessionSchema).default([]),
+  emailVerified: z.boolean().default(false),
+  emailVerifiedAt: z.string().optional(),
+  totp: z.object({
+    secret: z.string(),
+    enabled: z.boolean(),
+    confirmedAt: z.string().optional(),
+    lastUsedStep: z.number().optional(),
+  }).optional(),
+  identities: z.array(IdentitySchema).default([]),
+  // Access tokens issued (iat, in seconds) at or before this are rejected
+  tokensValidAfter: z.number().optional(),
+  // jti of the one password reset token that may still be used
+  passwordResetJti: z.string().optional(),
+  // jti of the one email change confirmation that may still be used
+  emailChangeJti: z.string().optional(),
+  // Object ids this account had under earlier emails; their tokens stay valid
+  formerIds: z.array(z.string()).optional(),
+  // Unique handle, claimed in the HandleRegistryDO
+  handle: z.string().optional(),
+  // e.g. "admin" for the admin routes
+  roles: z.array(z.string()).optional(),
+  // Absent on accounts that have always been active
+  status: z.enum(['active', 'suspended', 'pending_deletion']).optional(),
+  statusReason: z.string().optional(),
+  statusChangedAt: z.string().optional(),
 });
 type User = z.infer<typeof UserSchema>;
 
+// suspended: no sign-in and no working tokens until reinstated.
+// pending_deletion: marks accounts an app deletes after a grace period; they can
+// still sign in, e.g. to cancel.
+export type AccountStatus = NonNullable<User['status']>;
+
+// User fields that are safe to hand back to callers (no hashes, secrets or tokens)
+export type PublicUser = Pick<User, 'id' | 'email' | 'createdAt' | 'emailVerified' | 'handle'>;
+
+function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    createdAt: user.createdAt,
+    emailVerified: !!user.emailVerified,
+    ...(user.handle ? { handle: user.handle } : {}),
+  };
+}
+
+export type AuthResult = {
+  user: PublicUser;
+  token: string;
+  refreshToken: string;
+};
+
+// Returned by signup instead of tokens when the app requires a verified email
+export type EmailVerificationRequired = {
+  user: PublicUser;
+  emailVerificationRequired: true;
+};
+
+// Request details recorded on the session a login creates
+export type ClientContext = {
+  userAgent?: string;
+  ip?: string;
+  country?: string;
+  // App requesting the tokens, when several share one deployment
+  audience?: string;
+};
+
+// Session fields shown on a "where you're logged in" page
+export type SessionInfo = Pick<Session, 'id' | 'createdAt' | 'lastUsedAt' | 'userAgent' | 'ip' | 'country' | 'label'> & {
+  current: boolean;
+};
+
+function toSessionInfo(session: Session, currentSessionId?: string): SessionInfo {
+  const { id, createdAt, lastUsedAt, userAgent, ip, country, label } = session;
+  return { id, createdAt, lastUsedAt, userAgent, ip, country, label, current: id === currentSessionId };
+}
+
+// Stored users from before sessions kept refresh tokens in a flat list
+type LegacyRefreshTokens = {
+  refreshTokens?: Array<string | { jti: string }>;
+};
+
+// Account seeded from another auth system; passwordHash may be in any format
+// detectPasswordHashFormat() recognises
+export type ImportedUser = {
+  email: string;
+  passwordHash?: string;
+  emailVerified?: boolean;
+  createdAt?: string;
+};
+
+// Login methods and linked identities as listed to the account owner
+export type LinkedIdentity = {
+  id: string; // "password", "oauth:<provider>:<subject>" or "email:<address>"
+  type: 'password' | 'oauth' | 'email';
+  provider?: string;
+  email?: string;
+  linkedAt?: string;
+};
+
+// Returned by login instead of tokens when a second factor is required
+export type MfaChallenge = {
+  mfaRequired: true;
+  mfaToken: string;
+};
+
+// --- Passkey Schemas ---
+const PasskeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  publicKey: z.record(z.unknown()),
+  alg: z.number(),
+  signCount: z.number(),
+  transports: z.array(z.string()).optional(),
+  aaguid: z.string().optional(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+});
+type Passkey = z.infer<typeof PasskeySchema>;
+
+// Passkey fields that are safe to list (no key material)
+export type PasskeyInfo = Pick<Passkey, 'id' | 'name' | 'transports' | 'createdAt' | 'lastUsedAt'>;
+
+function toPasskeyInfo(passkey: Passkey): PasskeyInfo {
+  const { id, name, transports, createdAt, lastUsedAt } = passkey;
+  return { id, name, transports, createdAt, lastUsedAt };
+}
+
+// What getAdminSummary() shows support staff about an account
+export type AdminUserSummary = PublicUser & {
+  emailVerifiedAt?: string;
+  roles: string[];
+  status: AccountStatus;
+  statusReason?: string;
+  statusChangedAt?: string;
+  totpEnabled: boolean;
+  passkeys: number;
+  identities: LinkedIdentity[];
+  // Active sessions, and the most recent use of any of them
+  sessions: number;
+  lastActiveAt?: string;
+  ownedOrganizations: number;
+  memberships: number;
+};
+
+// Staff member acting as the user through an impersonation token (its act claim)
+export type Impersonator = {
+  id: string;
+  email: string;
+};
+
+// Something done to the account by someone other than its owner
+export type SecurityEvent = {
+  id: string;
+  type: 'impersonation';
+  at: string;
+  actor: Impersonator;
+  reason?: string;
+  ip?: string;
+  userAgent?: string;
+};
+
+// One line of the NDJSON archive produced by exportAccount(). The manifest comes
+// first and the end record last, so a truncated download is easy to spot.
+export type AccountExportRecord =
+  | {
+    type: 'manifest';
+    format: 'userdo-export';
+    version: 1;
+    exportedAt: string;
+    userId: string;
+    // Row counts of every table included
+    tables: Record<string, number>;
+  }
+  | {
+    type: 'profile';
+    data: PublicUser & { emailVerifiedAt?: string; totpEnabled: boolean; totpConfirmedAt?: string };
+  }
+  | { type: 'identity'; data: LinkedIdentity }
+  | { type: 'passkey'; data: PasskeyInfo }
+  | { type: 'session'; data: Omit<SessionInfo, 'current'> & { expiresAt: string } }
+  | { type: 'security_event'; data: SecurityEvent }
+  | { type: 'kv'; key: string; value: unknown }
+  | {
+    type: 'row';
+    table: string;
+    id: string;
+    organizationId?: string;
+    createdAt: string;
+    updatedAt: string;
+    data: unknown;
+  }
+  | { type: 'organization'; data: { organization: Organization; members: OrganizationMember[] } }
+  | { type: 'membership'; data: OrganizationMembership }
+  | { type: 'end'; records: number };
+
+// Streams records as newline-delimited JSON, producing them only as the reader pulls
+function ndjsonStream(records: AsyncIterable<unknown>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = records[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(JSON.stringify(value) + '\n'));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+// Consecutive failed sign-ins
+type LoginFailureRecord = {
+  failures: number;
+  lockedUntil: number;
+  lastFailureAt: number;
+};
+
+// The same, per client IP
+type LoginFailures = Record<string, LoginFailureRecord>;
+
+// Revoked access tokens: jti -> expiry (ms), kept until the token would have expired anyway
+type TokenDenylist = Record<string, number>;
+
+// Left behind by deleteAccount: the email may sign up again, but tokens from the
+// deleted account must not work for the new one (the object id is the same)
+type Tombstone = {
+  deletedAt: string;
+};
+
+// Stored in the Durable Object named after a linked identity, pointing at the account.
+// An account that changed its email leaves one at its old address (identity "moved").
+type Alias = {
+  email: string;
+  identity: string;
+};
+
+// Held by the new address's object while an account is being copied into it
+type IncomingMove = {
+  from: string;
+  startedAt: number;
+  // Records the object had before the move, restored if it is aborted
+  previous: Record<string, unknown>;
+};
+
+// One-time login code and magic link token, stored hashed
+type LoginCode = {
+  codeHash: string;
+  linkTokenHash: string;
+  expiresAt: number;
+  attempts: number;
+};
+
+type WebAuthnChallenge = {
+  challenge: string;
+  type: 'registration' | 'authentication';
+  expiresAt: number;
+};
+
 // --- Organization Schemas ---
 const OrganizationSchema = z.object({
   id: z.string(),
@@ -44,24 +374,43 @@ type OrganizationMember = z.infer<typeof OrganizationMemberSchema>;
 type OrganizationMembership = z.infer<typeof OrganizationMembershipSchema>;
 
 // --- Zod Schemas for endpoint validation ---
-const SignupSchema = z.object({
-  email: z.string().email(),
-  password: z.string().min(8),
-});
-const LoginSchema = SignupSchema;
+const EmailSchema = z.string().email();
+
+// Only caps the length; new passwords then go through the full policy
+// (existing ones may predate it)
+function credentialsSchema(policy: UserDOConfig['password']) {
+  return z.object({
+    email: EmailSchema,
+    password: z.string().min(1).max(policy.maxLength),
+  });
+}
 const InitSchema = UserSchema;
 
-// --- Password Hashing ---
-const PASSWORD_CONFIG = {
-  iterations: 100_000,
-  saltLength: 16,
-};
-
 const RESERVED_PREFIX = "__";
 const AUTH_DATA_KEY = "__user";
 const RATE_LIMIT_KEY = "__rl";
-const RATE_LIMIT_MAX = 5;
-const RATE_LIMIT_WINDOW = 60_000; // 1 minute
+const PASSKEYS_KEY = "__passkeys";
+const WEBAUTHN_CHALLENGE_KEY = "__webauthn_challenge";
+const PASSKEY_DECOY_KEY = "__passkey_decoy";
+const LOGIN_FAILURES_KEY = "__login_failures";
+const LOGIN_FAILURES_MAX_CLIENTS = 100;
+const ACCOUNT_LOGIN_FAILURES_KEY = "__account_login_failures";
+const TOKEN_DENYLIST_KEY = "__token_denylist";
+const TOKEN_DENYLIST_MAX = 500; // beyond this, fall back to the tokensValidAfter watermark
+const LOGIN_CODE_KEY = "__login_code";
+const ALIAS_KEY = "__alias";
+const TOMBSTONE_KEY = "__tombstone";
+const INCOMING_MOVE_KEY = "__incoming_move";
+const SECURITY_LOG_KEY = "__security_log";
+const SECURITY_LOG_MAX = 200;
+// Short-lived or address-bound records that are not carried over on an email change
+const NON_MOVABLE_KEYS = [AUTH_DATA_KEY, ALIAS_KEY, TOMBSTONE_KEY, INCOMING_MOVE_KEY, WEBAUTHN_CHALLENGE_KEY, PASSKEY_DECOY_KEY, LOGIN_CODE_KEY];
+// storage.put() takes at most 128 entries at once
+const MOVE_KV_PAGE = 128;
+const MOVE_ROW_PAGE = 500;
+// An unfinished move older than this no longer blocks the address
+const MOVE_STALE_AFTER = 10 * 60 * 1000;
+const TOTP_ISSUER = 'UserDO';
 
 function isReservedKey(key: string): boolean {
   return key.startsWith(RESERVED_PREFIX);
@@ -70,11 +419,49 @@ function isReservedKey(key: string): boolean {
 type JwtPayload = {
   sub: string;
   email: string;
+  type?: string;
+  jti?: string;
+  sid?: string;
+  iss?: string;
+  aud?: string | string[];
+  iat?: number;
+  // RFC 8693 actor: the staff member an impersonation token was issued to
+  act?: { sub: string; email: string };
 };
 
+// Set by createWebSocketHandler() to the audience of the app a connection is for
+export const WEBSOCKET_AUDIENCE_HEADER = 'X-UserDO-Audience';
+
+// Error for every request by or for a suspended account
+const ACCOUNT_SUSPENDED = 'Account suspended';
+const IMPERSONATION_REFUSED = 'Not allowed while impersonating';
+
+// Claims UserDO sets itself; getCustomClaims() can't override them
+const RESERVED_CLAIMS = ['sub', 'email', 'handle', 'roles', 'act', 'sid', 'iss', 'aud', 'iat', 'exp', 'nbf', 'jti', 'type'];
+
+// Rejects tokens minted for another issuer or app
+function checkIssuerAndAudience(payload: JwtPayload, issuer?: string, audience?: string): void {
+  if (issuer && payload.iss !== issuer) throw new Error('Invalid token issuer');
+  if (audience) {
+    const aud = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!aud.includes(audience)) throw new Error('Invalid token audience');
+  }
+}
+
 export interface Env {
-  JWT_SECRET: string;
+  // HS256 secret; optional once JWT_KEYS holds the signing keys
+  JWT_SECRET?: string;
+  // JSON array of signing keys (see keys.ts)
+  JWT_KEYS?: string;
+  // `iss` and default `aud` of access and refresh tokens
+  JWT_ISSUER?: string;
+  JWT_AUDIENCE?: string;
   USERDO: DurableObjectNamespace<UserDO>;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiterDO>;
+  // Needed for handles (see handles.ts)
+  HANDLE_REGISTRY?: DurableObjectNamespace<HandleRegistryDO>;
+  // Needed for the admin user directory (see directory.ts)
+  USER_DIRECTORY?: DurableObjectNamespace<UserDirectoryDO>;
   ASSETS?: Fetcher;
 }
 
@@ -99,50 +486,112 @@ export function getUserDO<T extends UserDO>(
   return namespace.get(namespace.idFromName(email)) as unknown as T;
 }
 
-const getDO = (env: Env, email: string): UserDO => {
-  return env.USERDO.get(env.USERDO.idFromName(email)) as unknown as UserDO;
-};
+// Follows linked identities (secondary emails, "oauth:<provider>:<subject>") to the
+// account they belong to; plain emails resolve to themselves
+export async function resolveUserDO<T extends UserDO>(
+  namespace: DurableObjectNamespace<T>,
+  identifier: string
+): Promise<T> {
+  const userDO = getUserDO(namespace, identifier);
+  const alias = await userDO.getAlias();
+  return alias ? getUserDO(namespace, alias.email) : userDO;
+}
 
-async function hashPassword(
-  password: string
-): Promise<{ hash: string; salt: string }> {
-  const encoder = new TextEncoder();
-  const saltBytes = crypto.getRandomValues(new Uint8Array(PASSWORD_CONFIG.saltLength));
-  const salt = btoa(String.fromCharCode(...saltBytes));
-  const key = await crypto.subtle.importKey('raw', encoder.encode(password), { name: 'PBKDF2' }, false, ['deriveBits']);
-  const derivedBits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: saltBytes, iterations: PASSWORD_CONFIG.iterations, hash: 'SHA-256' }, key, 256);
-  const hash = btoa(String.fromCharCode(...new Uint8Array(derivedBits)));
-  return { hash, salt };
+// Name of the alias Durable Object for a social login
+export function oauthIdentityId(provider: string, subject: string): string {
+  return `oauth:${provider}:${subject}`;
 }
 
-async function verifyPassword(
-  password: string, salt: string, expectedHash: string
-): Promise<boolean> {
-  const encoder = new TextEncoder();
-  const saltBytes = Uint8Array.from(atob(salt), c => c.charCodeAt(0));
-  const key = await crypto.subtle.importKey('raw', encoder.encode(password), { name: 'PBKDF2' }, false, ['deriveBits']);
-  const derivedBits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: saltBytes, iterations: PASSWORD_CONFIG.iterations, hash: 'SHA-256' }, key, 256);
-  const hash = btoa(String.fromCharCode(...new Uint8Array(derivedBits)));
-  return hash === expectedHash;
+// Alias records for emails live under the address itself so signups to it collide
+function aliasNameFor(identity: Identity): string {
+  return identity.type === 'email' && identity.email ? identity.email : identity.id;
+}
+
+// The user's row in the UserDirectoryDO
+function directoryEntry(user: User, lastLoginAt?: string): DirectoryEntry {
+  return {
+    email: user.email,
+    userId: user.id,
+    handle: user.handle,
+    createdAt: user.createdAt,
+    emailVerified: !!user.emailVerified,
+    roles: user.roles || [],
+    status: user.status || 'active',
+    lastLoginAt,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Drop expired sessions and expired refresh token records
+function pruneSessions(sessions: Session[]): Session[] {
+  const now = Date.now();
+  return sessions
+    .filter(s => s.expiresAt > now)
+    .map(s => ({ ...s, refreshTokens: s.refreshTokens.filter(t => t.expiresAt > now) }));
+}
+
+// Short device label like "Chrome on macOS" for the sessions list
+function describeUserAgent(userAgent?: string): string | undefined {
+  if (!userAgent) return undefined;
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' : undefined;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Macintosh|Mac OS X/.test(userAgent) ? 'macOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Linux/.test(userAgent) ? 'Linux' : undefined;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+// Password, passkeys and social logins; secondary emails only route to the account
+function countLoginMethods(user: User, passkeys: Passkey[]): number {
+  const oauth = (user.identities || []).filter(i => i.type === 'oauth').length;
+  return (user.passwordHash ? 1 : 0) + passkeys.length + oauth;
+}
+
+// The primary address or a confirmed secondary one
+function ownsEmail(user: User, email: string): boolean {
+  return user.email === email || (user.identities || []).some(i => i.type === 'email' && i.email === email);
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Uniform random numeric code (rejection sampling avoids modulo bias)
+function generateNumericCode(digits: number): string {
+  const max = 10 ** digits;
+  const limit = Math.floor(0xffffffff / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return (buffer[0] % max).toString().padStart(digits, '0');
 }
 
-// Atomic migration helper (outside the class)
+const getDO = (env: Env, email: string): UserDO => {
+  return env.USERDO.get(env.USERDO.idFromName(email)) as unknown as UserDO;
+};
+
+// Moves an account to a new email without a confirmation step, e.g. from admin
+// tooling. Same as UserDO.changeEmail(): everything is copied and rolled back on failure.
 export async function migrateUserEmail(
   { env, oldEmail, newEmail }:
     { env: Env; oldEmail: string; newEmail: string }
 ): Promise<{ ok: boolean; error?: string }> {
-  oldEmail = oldEmail.toLowerCase();
-  newEmail = newEmail.toLowerCase();
-  const oldDO = getDO(env, oldEmail);
-  const newDO = getDO(env, newEmail);
   try {
-    const user = await oldDO.raw();
-    user.email = newEmail;
-    await newDO.init(user);
-    await oldDO.deleteUser();
+    await getDO(env, oldEmail.toLowerCase()).changeEmail({ email: newEmail });
     return { ok: true };
   } catch (err) {
-    // Optionally, add rollback logic here
     return { ok: false, error: err instanceof Error ? err.message : String(err) };
   }
 }
@@ -168,254 +617,1637 @@ export class UserDO extends DurableObject {
       this.broadcast.bind(this)
     );
 
-    // Initialize organization tables
-    this.ownedOrganizations = this.table('owned_organizations', OrganizationSchema, { userScoped: true });
-    this.organizationMembers = this.table('organization_members', OrganizationMemberSchema, { userScoped: true });
+    // Initialize organization tables
+    this.ownedOrganizations = this.table('owned_organizations', OrganizationSchema, { userScoped: true });
+    this.organizationMembers = this.table('organization_members', OrganizationMemberSchema, { userScoped: true });
+  }
+
+  // Token lifetimes, password policy and rate limits. Override in a subclass with
+  // defineUserDOConfig({ ... }) and pass the same object to createUserDOWorker.
+  protected config: UserDOConfig = DEFAULT_USER_DO_CONFIG;
+
+  // Signs and verifies every token this object issues
+  protected get keyRing(): KeyRing {
+    return getKeyRing(this.env);
+  }
+
+  // `iss` claim, checked by verifyToken
+  private get tokenIssuer(): string | undefined {
+    return this.config.tokens.issuer || this.env.JWT_ISSUER;
+  }
+
+  // `aud` for sessions whose login didn't name an app (ClientContext.audience)
+  private get tokenAudience(): string | undefined {
+    return this.config.tokens.audience || this.env.JWT_AUDIENCE;
+  }
+
+  // Extra access token claims such as roles or plan tier. Runs on every login and
+  // refresh; reserved claims (sub, email, sid, iss, aud, exp, ...) are ignored.
+  protected async getCustomClaims(
+    _user: PublicUser, _session: { id: string; audience?: string }
+  ): Promise<Record<string, unknown>> {
+    return {};
+  }
+
+  // Throws a PasswordPolicyError listing every rule the password breaks
+  private async checkNewPassword(password: string, email: string): Promise<void> {
+    const result = await checkPassword(password, this.config.password, { email });
+    if (!result.ok) throw new PasswordPolicyError(result.failures);
+  }
+
+  private async setPassword(user: User, password: string): Promise<void> {
+    user.passwordHash = await hashPassword(password, this.config.password.hashing);
+    delete user.salt;
+  }
+
+  private async checkRateLimit(
+    bucket: Exclude<keyof UserRateLimits, 'failedLogin' | 'accountFailedLogin'> = 'default'
+  ): Promise<void> {
+    const key = `${RATE_LIMIT_KEY}:${bucket}`;
+    const { record, retryAfter } = consumeWindow(
+      await this.storage.get<WindowRecord>(key),
+      this.config.rateLimits.user[bucket]
+    );
+    await this.storage.put(key, record);
+    if (retryAfter !== null) throw new RateLimitError(retryAfter);
+  }
+
+  // Failed sign-ins back off per client IP, so guessing from elsewhere can't
+  // lock the owner out of their own account. Guessing spread over many IPs is
+  // slowed by an account-wide counter, which clients that already hold a session
+  // on the account are exempt from.
+  private async checkLoginBackoff(client?: ClientContext): Promise<void> {
+    const now = Date.now();
+    const failures = await this.storage.get<LoginFailures>(LOGIN_FAILURES_KEY);
+    const entry = failures?.[client?.ip || 'unknown'];
+    if (entry && entry.lockedUntil > now) {
+      throw new RateLimitError((entry.lockedUntil - now) / 1000);
+    }
+    const account = await this.storage.get<LoginFailureRecord>(ACCOUNT_LOGIN_FAILURES_KEY);
+    if (account && account.lockedUntil > now && !await this.isKnownClient(client)) {
+      throw new RateLimitError((account.lockedUntil - now) / 1000);
+    }
+  }
+
+  // The client's IP has an active session on the account
+  private async isKnownClient(client?: ClientContext): Promise<boolean> {
+    if (!client?.ip) return false;
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    return pruneSessions(user?.sessions || []).some(s => s.ip === client.ip);
+  }
+
+  private async recordLoginFailure(client?: ClientContext): Promise<void> {
+    const now = Date.now();
+    const failures = await this.storage.get<LoginFailures>(LOGIN_FAILURES_KEY) || {};
+    const key = client?.ip || 'unknown';
+    const count = (failures[key]?.failures || 0) + 1;
+    const delay = backoffDelay(count, this.config.rateLimits.user.failedLogin);
+    failures[key] = { failures: count, lockedUntil: now + delay * 1000, lastFailureAt: now };
+
+    // Forget the clients that have been quiet the longest; the account-wide
+    // counter below still sees their failures
+    const entries = Object.entries(failures)
+      .sort(([, a], [, b]) => b.lastFailureAt - a.lastFailureAt)
+      .slice(0, LOGIN_FAILURES_MAX_CLIENTS);
+    await this.storage.put(LOGIN_FAILURES_KEY, Object.fromEntries(entries));
+
+    const accountCount = ((await this.storage.get<LoginFailureRecord>(ACCOUNT_LOGIN_FAILURES_KEY))?.failures || 0) + 1;
+    const accountDelay = backoffDelay(accountCount, this.config.rateLimits.user.accountFailedLogin);
+    await this.storage.put<LoginFailureRecord>(ACCOUNT_LOGIN_FAILURES_KEY, {
+      failures: accountCount,
+      lockedUntil: now + accountDelay * 1000,
+      lastFailureAt: now,
+    });
+  }
+
+  private async clearLoginFailures(client?: ClientContext): Promise<void> {
+    await this.storage.delete(ACCOUNT_LOGIN_FAILURES_KEY);
+    const failures = await this.storage.get<LoginFailures>(LOGIN_FAILURES_KEY);
+    const key = client?.ip || 'unknown';
+    if (!failures?.[key]) return;
+    delete failures[key];
+    await this.storage.put(LOGIN_FAILURES_KEY, failures);
+  }
+
+  // With an actor, signs an impersonation token instead: it names the actor in its
+  // act claim, belongs to no session and lives for tokens.impersonationTtl
+  private async signAccessToken(
+    user: User, session: Pick<Session, 'id' | 'audience'>, actor?: Impersonator
+  ): Promise<string> {
+    const audience = session.audience || this.tokenAudience;
+    const custom = await this.getCustomClaims(toPublicUser(user), { id: session.id, audience });
+    const claims = Object.fromEntries(Object.entries(custom).filter(([name]) => !RESERVED_CLAIMS.includes(name)));
+    const now = Math.floor(Date.now() / 1000);
+    // Tokens issued in the second of a revocation must still pass the watermark
+    const iat = Math.max(now, (user.tokensValidAfter ?? 0) + 1);
+    const { accessTokenTtl, impersonationTtl } = this.config.tokens;
+    return this.keyRing.sign({
+      ...claims,
+      sub: user.id,
+      email: user.email,
+      ...(user.handle ? { handle: user.handle } : {}),
+      ...(user.roles?.length ? { roles: user.roles } : {}),
+      ...(actor ? { act: { sub: actor.id, email: actor.email } } : { sid: session.id }),
+      iss: this.tokenIssuer,
+      aud: audience,
+      iat,
+      jti: crypto.randomUUID(),
+      exp: now + (actor ? impersonationTtl : accessTokenTtl),
+    });
+  }
+
+  // Sign the next refresh token for a session and record it (the caller saves)
+  private async createRefreshToken(user: User, session: Session): Promise<string> {
+    const jti = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + this.config.tokens.refreshTokenTtl;
+    const refreshToken = await this.keyRing.sign({
+      sub: user.id,
+      email: user.email,
+      type: 'refresh',
+      jti,
+      sid: session.id,
+      iss: this.tokenIssuer,
+      aud: session.audience || this.tokenAudience,
+      iat: now,
+      exp,
+    });
+
+    session.refreshTokens.push({ jti, expiresAt: exp * 1000 });
+    session.expiresAt = exp * 1000;
+    return refreshToken;
+  }
+
+  // Start a session for a completed login and sign its tokens
+  private async issueTokens(user: User, client: ClientContext = {}): Promise<AuthResult> {
+    // Every way of signing in (and of refreshing old-style tokens) ends here
+    if (user.status === 'suspended') throw new Error(ACCOUNT_SUSPENDED);
+    const now = new Date().toISOString();
+    const session: Session = {
+      id: crypto.randomUUID(),
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: 0,
+      userAgent: client.userAgent,
+      ip: client.ip,
+      country: client.country,
+      label: describeUserAgent(client.userAgent),
+      audience: client.audience,
+      refreshTokens: [],
+    };
+    const refreshToken = await this.createRefreshToken(user, session);
+    user.sessions = [...pruneSessions(user.sessions || []), session];
+    await this.storage.put(AUTH_DATA_KEY, user);
+
+    const token = await this.signAccessToken(user, session);
+    await this.updateDirectory(user, now);
+    return { user: toPublicUser(user), token, refreshToken };
+  }
+
+  async signup(
+    { email, password, requireVerifiedEmail = false, client }:
+      { email: string; password: string; requireVerifiedEmail?: boolean; client?: ClientContext }
+  ): Promise<AuthResult | EmailVerificationRequired> {
+    email = email.toLowerCase();
+    await this.checkRateLimit('signup');
+    const parsed = credentialsSchema(this.config.password).safeParse({ email, password });
+    if (!parsed.success) {
+      throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
+    }
+    await this.checkNewPassword(password, email);
+    // Check if user already exists
+    const existing = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (existing || await this.storage.get<Alias>(ALIAS_KEY)) throw new Error('Email already registered');
+    const id = this.state.id.toString();
+    const createdAt = new Date().toISOString();
+    const user: User = {
+      id,
+      email,
+      passwordHash: await hashPassword(password, this.config.password.hashing),
+      createdAt,
+      sessions: [],
+      emailVerified: false,
+      identities: [],
+    };
+    await this.storage.put(AUTH_DATA_KEY, user);
+
+    // No session until the address is confirmed
+    if (requireVerifiedEmail) {
+      await this.updateDirectory(user);
+      return { user: toPublicUser(user), emailVerificationRequired: true };
+    }
+
+    return this.issueTokens(user, client);
+  }
+
+  async login(
+    { email, password, requireVerifiedEmail = false, client }:
+      { email: string; password: string; requireVerifiedEmail?: boolean; client?: ClientContext }
+  ): Promise<AuthResult | MfaChallenge> {
+    email = email.toLowerCase();
+    await this.checkLoginBackoff(client);
+    const parsed = credentialsSchema(this.config.password).safeParse({ email, password });
+    if (!parsed.success) {
+      throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
+    }
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    const ok = !!user && ownsEmail(user, email) && !!user.passwordHash &&
+      await verifyPassword(password, user.passwordHash, user.salt);
+    if (!user || !ok) {
+      await this.recordLoginFailure(client);
+      throw new Error('Invalid credentials');
+    }
+    await this.clearLoginFailures(client);
+    // The plain password is only available here, so upgrade outdated hashes now
+    if (needsRehash(user.passwordHash!, this.config.password.hashing)) {
+      await this.setPassword(user, password);
+      await this.storage.put(AUTH_DATA_KEY, user);
+    }
+    if (requireVerifiedEmail && !user.emailVerified) throw new Error('Email not verified');
+
+    return this.completeFirstFactor(user, client);
+  }
+
+  // Second factor enabled: hand out a short-lived challenge instead of tokens
+  private async completeFirstFactor(user: User, client?: ClientContext): Promise<AuthResult | MfaChallenge> {
+    if (user.totp?.enabled) {
+      const mfaToken = await this.keyRing.sign({
+        sub: user.id,
+        email: user.email,
+        type: 'mfa_pending',
+        exp: Math.floor(Date.now() / 1000) + this.config.tokens.mfaChallengeTtl,
+      });
+      return { mfaRequired: true, mfaToken };
+    }
+
+    return this.issueTokens(user, client);
+  }
+
+  // === Social Login (OAuth / OpenID Connect) ===
+
+  // Called by the worker once the provider has vouched for this identity. An account
+  // is matched by the linked identity or, for a new identity, by its verified email.
+  // Creates a password-less account on first use.
+  async loginWithOAuth(
+    { email, provider, subject, client }: { email: string; provider: string; subject: string; client?: ClientContext }
+  ): Promise<AuthResult | MfaChallenge> {
+    email = email.toLowerCase();
+    let user = await this.storage.get<User>(AUTH_DATA_KEY);
+    const identityId = oauthIdentityId(provider, subject);
+
+    if (!user) {
+      if (await this.storage.get<Alias>(ALIAS_KEY)) throw new Error('Invalid credentials');
+      const now = new Date().toISOString();
+      user = {
+        id: this.state.id.toString(),
+        email,
+        createdAt: now,
+        sessions: [],
+        emailVerified: true,
+        emailVerifiedAt: now,
+        identities: [],
+      };
+      await this.linkIdentity(user, { id: identityId, type: 'oauth', provider, subject, email, linkedAt: now });
+      console.log(`👤 Created account via ${provider}`);
+      return this.completeFirstFactor(user, client);
+    }
+
+    if (user.email === email && !user.emailVerified) {
+      // The provider verified the address; whoever registered it may not own it
+      await this.revokeUnverifiedAccess(user);
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date().toISOString();
+      await this.storage.put(AUTH_DATA_KEY, user);
+    }
+    if (!(user.identities || []).some(i => i.id === identityId)) {
+      if (!ownsEmail(user, email)) throw new Error('Invalid credentials');
+      await this.linkIdentity(user, { id: identityId, type: 'oauth', provider, subject, email, linkedAt: new Date().toISOString() });
+    }
+
+    return this.completeFirstFactor(user, client);
+  }
+
+  // An unverified account may have been registered by someone who doesn't own the
+  // address, waiting for the real owner to sign in (pre-account takeover). When the
+  // owner proves the address, every way in the registrant set up is removed:
+  // password, 2FA, passkeys, linked identities, sessions and issued tokens.
+  private async revokeUnverifiedAccess(user: User & LegacyRefreshTokens): Promise<void> {
+    const identities = user.identities || [];
+    delete user.passwordHash;
+    delete user.salt;
+    delete user.totp;
+    delete user.passwordResetJti;
+    delete user.emailChangeJti;
+    delete user.refreshTokens;
+    user.identities = [];
+    user.sessions = [];
+    this.invalidateIssuedTokens(user);
+    await this.storage.delete([PASSKEYS_KEY, LOGIN_CODE_KEY]);
+    await this.storage.put(AUTH_DATA_KEY, user);
+
+    const namespace = this.findUserDONamespace();
+    await Promise.allSettled(identities.map(identity =>
+      getUserDO(namespace, aliasNameFor(identity)).releaseAlias({ email: user.email })
+    ));
+    this.broadcast('session:revoked', { all: true });
+    for (const ws of this.ctx.getWebSockets()) {
+      try {
+        ws.close(4001, 'Session revoked');
+      } catch {
+        // Already closing
+      }
+    }
+  }
+
+  // === Passwordless Login (email code / magic link) ===
+
+  // Returns the secrets so the worker can deliver them; only hashes are stored
+  async requestLoginCode(
+    { email }: { email: string }
+  ): Promise<{ code: string; linkToken: string; email: string; expiresInMinutes: number }> {
+    email = email.toLowerCase();
+    await this.checkRateLimit('loginCode');
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user || !ownsEmail(user, email)) throw new Error('User not found');
+
+    const code = generateNumericCode(6);
+    const linkToken = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+    await this.storage.put<LoginCode>(LOGIN_CODE_KEY, {
+      codeHash: await sha256Hex(code),
+      linkTokenHash: await sha256Hex(linkToken),
+      expiresAt: Date.now() + this.config.tokens.loginCodeTtl * 1000,
+      attempts: 0,
+    });
+
+    return { code, linkToken, email, expiresInMinutes: this.config.tokens.loginCodeTtl / 60 };
+  }
+
+  // Accepts either the typed code or the magic link token; both are single use
+  async verifyLoginCode(
+    { email, code, linkToken, client }: { email: string; code?: string; linkToken?: string; client?: ClientContext }
+  ): Promise<AuthResult | MfaChallenge> {
+    email = email.toLowerCase();
+    await this.checkLoginBackoff(client);
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    const record = await this.storage.get<LoginCode>(LOGIN_CODE_KEY);
+    if (!user || !ownsEmail(user, email) || !record || record.expiresAt < Date.now()) {
+      throw new Error('Invalid or expired code');
+    }
+    if (record.attempts >= this.config.tokens.loginCodeMaxAttempts) {
+      await this.storage.delete(LOGIN_CODE_KEY);
+      throw new Error('Too many attempts, request a new code');
+    }
+
+    const matches = code
+      ? await sha256Hex(code.trim()) === record.codeHash
+      : !!linkToken && await sha256Hex(linkToken) === record.linkTokenHash;
+    if (!matches) {
+      record.attempts += 1;
+      await this.storage.put(LOGIN_CODE_KEY, record);
+      await this.recordLoginFailure(client);
+      throw new Error('Invalid or expired code');
+    }
+
+    await this.storage.delete(LOGIN_CODE_KEY);
+    await this.clearLoginFailures(client);
+
+    // Receiving the code proves control of the mailbox, not that the registrant had it
+    if (user.email === email && !user.emailVerified) {
+      await this.revokeUnverifiedAccess(user);
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date().toISOString();
+      await this.storage.put(AUTH_DATA_KEY, user);
+    }
+
+    return this.completeFirstFactor(user, client);
+  }
+
+  // Complete a login that returned an MFA challenge
+  async verifyMfa(
+    { mfaToken, code, client }: { mfaToken: string; code: string; client?: ClientContext }
+  ): Promise<AuthResult> {
+    await this.checkLoginBackoff(client);
+    const verify = await this.keyRing.verify<JwtPayload>(mfaToken);
+    if (!verify?.payload || verify.payload.type !== 'mfa_pending') {
+      throw new Error('Invalid or expired MFA challenge');
+    }
+
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user || user.id !== verify.payload.sub) throw new Error('Invalid or expired MFA challenge');
+    if (!user.totp?.enabled) throw new Error('MFA is not enabled');
+
+    const step = await verifyTotp(user.totp.secret, code, user.totp.lastUsedStep);
+    if (step === null) {
+      await this.recordLoginFailure(client);
+      throw new Error('Invalid MFA code');
+    }
+    user.totp.lastUsedStep = step;
+    await this.clearLoginFailures(client);
+
+    return this.issueTokens(user, client);
+  }
+
+  // === Email Verification ===
+
+  async generateEmailVerificationToken(): Promise<{ verificationToken: string }> {
+    await this.checkRateLimit('verification');
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (user.emailVerified) throw new Error('Email already verified');
+
+    const verificationToken = await this.keyRing.sign({
+      sub: user.id,
+      email: user.email,
+      type: 'email_verification',
+      exp: Math.floor(Date.now() / 1000) + this.config.tokens.emailVerificationTtl,
+    });
+
+    return { verificationToken };
+  }
+
+  async verifyEmail({ token }: { token: string }): Promise<{ ok: boolean }> {
+    const verify = await this.keyRing.verify<JwtPayload>(token);
+    if (!verify?.payload || verify.payload.type !== 'email_verification') {
+      throw new Error('Invalid verification token');
+    }
+
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    // The token is bound to the address it was sent to
+    if (!user || user.id !== verify.payload.sub || user.email !== verify.payload.email) {
+      throw new Error('Invalid verification token');
+    }
+
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date().toISOString();
+      await this.storage.put(AUTH_DATA_KEY, user);
+      this.broadcast('user:email_verified', { email: user.email });
+      await this.updateDirectory(user);
+    }
+    return { ok: true };
+  }
+
+  // === TOTP Two-Factor Authentication ===
+
+  // Start enrollment: store a pending secret until a first code confirms it
+  async enrollTotp(
+    { issuer = TOTP_ISSUER }: { issuer?: string } = {}
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (user.totp?.enabled) throw new Error('TOTP is already enabled');
+
+    const secret = generateTotpSecret();
+    user.totp = { secret, enabled: false };
+    await this.storage.put(AUTH_DATA_KEY, user);
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email, issuer) };
+  }
+
+  async confirmTotp({ code }: { code: string }): Promise<{ ok: boolean }> {
+    await this.checkRateLimit();
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (!user.totp) throw new Error('TOTP enrollment not started');
+    if (user.totp.enabled) throw new Error('TOTP is already enabled');
+
+    const step = await verifyTotp(user.totp.secret, code);
+    if (step === null) throw new Error('Invalid MFA code');
+
+    user.totp = {
+      ...user.totp,
+      enabled: true,
+      confirmedAt: new Date().toISOString(),
+      lastUsedStep: step,
+    };
+    await this.storage.put(AUTH_DATA_KEY, user);
+    return { ok: true };
+  }
+
+  async disableTotp({ code }: { code: string }): Promise<{ ok: boolean }> {
+    await this.checkRateLimit();
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (!user.totp?.enabled) throw new Error('TOTP is not enabled');
+
+    const step = await verifyTotp(user.totp.secret, code, user.totp.lastUsedStep);
+    if (step === null) throw new Error('Invalid MFA code');
+
+    delete user.totp;
+    await this.storage.put(AUTH_DATA_KEY, user);
+    return { ok: true };
+  }
+
+  async raw(): Promise<User> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    return user;
+  }
+
+  async init(user: User): Promise<{ ok: boolean }> {
+    const parsed = InitSchema.safeParse(user);
+    if (!parsed.success) {
+      throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
+    }
+    await this.storage.put(AUTH_DATA_KEY, user);
+    return { ok: true };
+  }
+
+  // Seed an account from an import. Existing accounts (and aliases) are left alone;
+  // the foreign hash is replaced with a native one on the first successful login.
+  async importUser(
+    { email, passwordHash, emailVerified = false, createdAt }: ImportedUser
+  ): Promise<{ imported: boolean; reason?: string }> {
+    email = email.toLowerCase();
+    if (await this.storage.get<User>(AUTH_DATA_KEY) || await this.storage.get<Alias>(ALIAS_KEY)) {
+      return { imported: false, reason: 'Email already registered' };
+    }
+    if (passwordHash) {
+      const format = detectPasswordHashFormat(passwordHash);
+      if (!format || format === 'legacy') throw new Error('Unsupported password hash format');
+    }
+
+    const now = new Date().toISOString();
+    const user: User = {
+      id: this.state.id.toString(),
+      email,
+      passwordHash,
+      createdAt: createdAt || now,
+      sessions: [],
+      emailVerified,
+      ...(emailVerified ? { emailVerifiedAt: now } : {}),
+      identities: [],
+    };
+    await this.init(user);
+    await this.updateDirectory(user);
+    return { imported: true };
+  }
+
+  /** @deprecated Use deleteAccount(), which this now calls with organizations: 'transfer' */
+  async deleteUser(
+    { impersonator }: { impersonator?: Impersonator } = {}
+  ): Promise<{ ok: boolean }> {
+    await this.deleteAccount({ organizations: 'transfer', impersonator });
+    return { ok: true };
+  }
+
+  // Erases the account and everything stored with it. Owned organizations pass to
+  // their longest-standing admin (or are deleted, with organizations: 'delete'), the
+  // records in other members' and linked identities' objects are removed, and
+  // connected clients are disconnected. With requirePassword, accounts that have a
+  // password must confirm it. Refused for a request made with an impersonation token
+  // (pass its impersonator from verifyToken or c.get('impersonator')).
+  async deleteAccount(
+    { password, requirePassword = false, organizations = 'transfer', impersonator }:
+      { password?: string; requirePassword?: boolean; organizations?: 'transfer' | 'delete'; impersonator?: Impersonator } = {}
+  ): Promise<{ ok: boolean; transferred: string[]; deleted: string[] }> {
+    if (impersonator) throw new Error(IMPERSONATION_REFUSED);
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (requirePassword && user.passwordHash) {
+      await this.checkLoginBackoff();
+      const ok = !!password && await verifyPassword(password, user.passwordHash, user.salt);
+      if (!ok) {
+        await this.recordLoginFailure();
+        throw new Error('Invalid password');
+      }
+    }
+
+    // Not best effort: a handle left behind would keep resolving to the old email
+    if (user.handle) await this.requireHandleRegistry().release({ email: user.email });
+
+    const namespace = this.findUserDONamespace();
+    const transferred: string[] = [];
+    const deleted: string[] = [];
+
+    for (const organization of await this.ownedOrganizations.getAll() as Organization[]) {
+      const members: OrganizationMember[] = await this.organizationMembers.where('organizationId', '==', organization.id).get();
+      const heir = organizations === 'transfer'
+        ? members.filter(m => m.role === 'admin').sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0]
+        : undefined;
+
+      if (heir) {
+        const { ownerEmail } = await getUserDO(namespace, heir.email).adoptOrganization({
+          rows: {
+            owned_organizations: this.database.exportRows('owned_organizations', 'id = ?', organization.id),
+            organization_members: this.database.exportRows(
+              'organization_members', `json_extract(data, '$.organizationId') = ?`, organization.id
+            ),
+            ...this.database.organizationRows(organization.id),
+          },
+          organizationId: organization.id,
+        });
+        await Promise.allSettled(members.filter(m => m.id !== heir.id).map(member =>
+          getUserDO(namespace, member.email).addMembership({
+            organizationId: organization.id,
+            organizationName: organization.name,
+            ownerEmail,
+            role: member.role,
+            joinedAt: member.createdAt,
+          })
+        ));
+        transferred.push(organization.id);
+      } else {
+        await Promise.allSettled(members.map(member =>
+          getUserDO(namespace, member.email).removeMembership(organization.id)
+        ));
+        deleted.push(organization.id);
+      }
+    }
+
+    // Leave organizations owned by others
+    const memberships = await this.storage.get<OrganizationMembership[]>('organization_memberships') || [];
+    const memberId = await hashEmailForId(user.email);
+    await Promise.allSettled(memberships.map(m =>
+      getUserDO(namespace, m.ownerEmail).removeOrganizationMember(m.organizationId, memberId)
+    ));
+
+    // Linked emails and social logins point here through alias records
+    await Promise.allSettled((user.identities || []).map(identity =>
+      getUserDO(namespace, aliasNameFor(identity)).releaseAlias({ email: user.email })
+    ));
+
+    // So do the addresses the account had before email changes
+    const deletedAt = new Date().toISOString();
+    await Promise.allSettled((user.formerIds || []).map(id =>
+      (namespace.get(namespace.idFromString(id)) as unknown as UserDO).retireAlias({ email: user.email, deletedAt })
+    ));
+
+    if (this.env.USER_DIRECTORY) {
+      await getUserDirectory(this.env.USER_DIRECTORY).remove({ email: user.email })
+        .catch(e => console.error('Failed to remove directory entry:', e));
+    }
+
+    this.broadcast('account:deleted', {});
+    for (const ws of this.ctx.getWebSockets()) {
+      try {
+        ws.close(4000, 'Account deleted');
+      } catch {
+        // Already closing
+      }
+    }
+
+    await this.storage.deleteAlarm();
+    await this.storage.deleteAll();
+    this.database.restoreTables();
+    await this.storage.put<Tombstone>(TOMBSTONE_KEY, { deletedAt });
+    console.log(`🗑️ Deleted account ${user.id}`);
+    return { ok: true, transferred, deleted };
+  }
+
+  // Everything stored about the user, as a streamed NDJSON archive (see
+  // AccountExportRecord). Password hashes, TOTP secrets, passkey keys and tokens
+  // are left out.
+  async exportAccount(): Promise<ReadableStream<Uint8Array>> {
+    await this.checkRateLimit();
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    return ndjsonStream(this.accountRecords(user));
+  }
+
+  private async *accountRecords(user: User): AsyncGenerator<AccountExportRecord> {
+    // Organizations are exported as a whole rather than as rows
+    const organizationTables = ['owned_organizations', 'organization_members'];
+    const tables = this.database.tableNames.filter(name => !organizationTables.includes(name));
+    const counts: Record<string, number> = {};
+    for (const name of tables) {
+      counts[name] = this.db.exec(`SELECT COUNT(*) AS count FROM "${name}"`).one().count as number;
+    }
+
+    let records = 0;
+    const emit = (record: AccountExportRecord) => {
+      records++;
+      return record;
+    };
+
+    yield emit({
+      type: 'manifest',
+      format: 'userdo-export',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      userId: user.id,
+      tables: counts,
+    });
+    yield emit({
+      type: 'profile',
+      data: {
+        ...toPublicUser(user),
+        emailVerifiedAt: user.emailVerifiedAt,
+        totpEnabled: !!user.totp?.enabled,
+        totpConfirmedAt: user.totp?.confirmedAt,
+      },
+    });
+    for (const identity of (await this.listIdentities()).identities) {
+      yield emit({ type: 'identity', data: identity });
+    }
+    for (const passkey of await this.getPasskeys()) {
+      yield emit({ type: 'passkey', data: toPasskeyInfo(passkey) });
+    }
+    for (const session of pruneSessions(user.sessions || [])) {
+      const { current, ...info } = toSessionInfo(session);
+      yield emit({ type: 'session', data: { ...info, expiresAt: new Date(session.expiresAt).toISOString() } });
+    }
+    for (const event of (await this.getSecurityLog()).events) {
+      yield emit({ type: 'security_event', data: event });
+    }
+
+    // Key-value data, a page at a time
+    let startAfter: string | undefined;
+    while (true) {
+      const page = await this.storage.list({ startAfter, limit: 256 });
+      for (const [key, value] of page) {
+        if (!isReservedKey(key) && key !== 'organization_memberships') {
+          yield emit({ type: 'kv', key, value });
+        }
+        startAfter = key;
+      }
+      if (page.size < 256) break;
+    }
+
+    for (const table of tables) {
+      for (const row of this.database.allRows(table)) {
+        yield emit({
+          type: 'row',
+          table,
+          id: row.id,
+          ...(row.organization_id ? { organizationId: row.organization_id } : {}),
+          createdAt: new Date(row.created_at).toISOString(),
+          updatedAt: new Date(row.updated_at).toISOString(),
+          data: JSON.parse(row.data),
+        });
+      }
+    }
+
+    for (const organization of await this.ownedOrganizations.getAll() as Organization[]) {
+      const members: OrganizationMember[] = await this.organizationMembers.where('organizationId', '==', organization.id).get();
+      yield emit({ type: 'organization', data: { organization, members } });
+    }
+    for (const membership of await this.storage.get<OrganizationMembership[]>('organization_memberships') || []) {
+      yield emit({ type: 'membership', data: membership });
+    }
+
+    yield { type: 'end', records: records + 1 };
+  }
+
+  // Stores a new password and signs out every session except currentSessionId.
+  // Outstanding reset tokens and all access tokens issued so far stop working.
+  private async replacePassword(
+    user: User & LegacyRefreshTokens, newPassword: string, currentSessionId?: string
+  ): Promise<void> {
+    await this.setPassword(user, newPassword);
+    delete user.passwordResetJti;
+    const sessions = user.sessions || [];
+    user.sessions = currentSessionId ? sessions.filter(s => s.id === currentSessionId) : [];
+    delete user.refreshTokens;
+    this.invalidateIssuedTokens(user);
+    await this.storage.put(AUTH_DATA_KEY, user);
+    if (sessions.length > user.sessions.length) {
+      this.broadcast('session:revoked', currentSessionId ? { others: true, count: sessions.length - user.sessions.length } : { all: true });
+    }
+  }
+
+  // Change password method. Other sessions are signed out; pass currentSessionId
+  // to keep the one making the change. Refused when impersonator is set.
+  async changePassword(
+    { oldPassword, newPassword, currentSessionId, impersonator }:
+      { oldPassword: string; newPassword: string; currentSessionId?: string; impersonator?: Impersonator }
+  ): Promise<{ ok: boolean }> {
+    if (impersonator) throw new Error(IMPERSONATION_REFUSED);
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    // Validate old password
+    const ok = !!user.passwordHash && await verifyPassword(oldPassword, user.passwordHash, user.salt);
+    if (!ok) throw new Error('Invalid current password');
+    // Validate new password
+    await this.checkNewPassword(newPassword, user.email);
+    // Hash new password
+    await this.replacePassword(user, newPassword, currentSessionId);
+    return { ok: true };
+  }
+
+  // Reset password method (for use after verifying a reset token)
+  async resetPassword(
+    { newPassword, currentSessionId }: { newPassword: string; currentSessionId?: string }
+  ): Promise<{ ok: boolean }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    // Validate new password
+    await this.checkNewPassword(newPassword, user.email);
+    // Hash new password
+    await this.replacePassword(user, newPassword, currentSessionId);
+    return { ok: true };
+  }
+
+  // Generate password reset token (expires in 1 hour). Only the newest token works,
+  // and only once. Deliver it out of band (the worker emails it) - never return it
+  // to the requester.
+  async generatePasswordResetToken(): Promise<{ resetToken: string; email: string; expiresInMinutes: number }> {
+    await this.checkRateLimit('passwordReset');
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+
+    const jti = crypto.randomUUID();
+    const resetExp = Math.floor(Date.now() / 1000) + this.config.tokens.passwordResetTtl;
+    const resetToken = await this.keyRing.sign({
+      sub: user.id,
+      email: user.email,
+      type: 'password_reset',
+      jti,
+      exp: resetExp
+    });
+    user.passwordResetJti = jti;
+    await this.storage.put(AUTH_DATA_KEY, user);
+
+    return { resetToken, email: user.email, expiresInMinutes: this.config.tokens.passwordResetTtl / 60 };
+  }
+
+  // Reset password with token
+  async resetPasswordWithToken(
+    { resetToken, newPassword }: { resetToken: string; newPassword: string }
+  ): Promise<{ ok: boolean }> {
+    const verify = await this.keyRing.verify<JwtPayload & { type: string }>(resetToken).catch(() => undefined);
+    if (!verify || !verify.payload || verify.payload.type !== 'password_reset') {
+      throw new Error('Invalid reset token');
+    }
+
+    // Superseded, already used, or issued before the password last changed
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user || !verify.payload.jti || verify.payload.jti !== user.passwordResetJti) {
+      throw new Error('Invalid reset token');
+    }
+
+    // Validate new password; the token stays usable so the user can pick another
+    await this.checkNewPassword(newPassword, user.email);
+
+    // Hash new password; this consumes the token and signs out every session
+    await this.replacePassword(user, newPassword);
+
+    return { ok: true };
+  }
+
+  // === Linked Identities ===
+  // Each linked identity has an alias record in the Durable Object named after it
+  // (the secondary email itself, or "oauth:<provider>:<subject>") so lookups by
+  // any of them reach this account.
+
+  // Claim the alias first so two accounts can't link the same identity
+  private async linkIdentity(user: User, identity: Identity): Promise<void> {
+    const aliasDO = getUserDO(this.findUserDONamespace(), aliasNameFor(identity));
+    await aliasDO.claimAlias({ email: user.email, identity: identity.id });
+    user.identities = [...(user.identities || []).filter(i => i.id !== identity.id), identity];
+    await this.storage.put(AUTH_DATA_KEY, user);
+    this.broadcast('identity:linked', { id: identity.id, type: identity.type });
+  }
+
+  async listIdentities(): Promise<{ identities: LinkedIdentity[] }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    const identities: LinkedIdentity[] = user.passwordHash ? [{ id: 'password', type: 'password' }] : [];
+    for (const { id, type, provider, email, linkedAt } of user.identities || []) {
+      identities.push({ id, type, provider, email, linkedAt });
+    }
+    return { identities };
+  }
+
+  // Link a social login to the signed-in account
+  async linkOAuthIdentity(
+    { provider, subject, email }: { provider: string; subject: string; email?: string }
+  ): Promise<{ identity: LinkedIdentity }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    const identity: Identity = {
+      id: oauthIdentityId(provider, subject),
+      type: 'oauth',
+      provider,
+      subject,
+      email: email?.toLowerCase(),
+      linkedAt: new Date().toISOString(),
+    };
+    await this.linkIdentity(user, identity);
+    return { identity: { id: identity.id, type: 'oauth', provider, email: identity.email, linkedAt: identity.linkedAt } };
+  }
+
+  // Start linking a secondary email; the worker mails the token to that address
+  async addEmail({ email }: { email: string }): Promise<{ confirmationToken: string; email: string }> {
+    email = email.toLowerCase();
+    await this.checkRateLimit('email');
+    const parsed = EmailSchema.safeParse(email);
+    if (!parsed.success) {
+      throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
+    }
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (ownsEmail(user, email)) throw new Error('Email already linked');
+
+    const confirmationToken = await this.keyRing.sign({
+      sub: user.id,
+      email: user.email,
+      linkEmail: email,
+      type: 'email_link',
+      exp: Math.floor(Date.now() / 1000) + this.config.tokens.emailLinkTtl,
+    });
+
+    return { confirmationToken, email };
+  }
+
+  async confirmEmail({ token }: { token: string }): Promise<{ identity: LinkedIdentity }> {
+    const verify = await this.keyRing.verify<JwtPayload & { linkEmail?: string }>(token);
+    const payload = verify?.payload;
+    if (!payload || payload.type !== 'email_link' || !payload.linkEmail) {
+      throw new Error('Invalid confirmation token');
+    }
+
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user || user.id !== payload.sub) throw new Error('Invalid confirmation token');
+
+    const identity: Identity = {
+      id: `email:${payload.linkEmail}`,
+      type: 'email',
+      email: payload.linkEmail,
+      linkedAt: new Date().toISOString(),
+    };
+    await this.linkIdentity(user, identity);
+    return { identity: { id: identity.id, type: 'email', email: identity.email, linkedAt: identity.linkedAt } };
+  }
+
+  // Refuses to remove the account's last way to sign in
+  async unlinkIdentity({ id }: { id: string }): Promise<{ ok: boolean }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    const passkeys = await this.getPasskeys();
+
+    if (id === 'password') {
+      if (!user.passwordHash) throw new Error('Identity not found');
+      const remaining = { ...user, passwordHash: undefined };
+      if (countLoginMethods(remaining, passkeys) === 0) throw new Error('Cannot remove the last login method');
+      delete user.passwordHash;
+      delete user.salt;
+      await this.storage.put(AUTH_DATA_KEY, user);
+      this.broadcast('identity:unlinked', { id });
+      return { ok: true };
+    }
+
+    const identity = (user.identities || []).find(i => i.id === id);
+    if (!identity) throw new Error('Identity not found');
+    const remaining = { ...user, identities: user.identities.filter(i => i.id !== id) };
+    if (countLoginMethods(remaining, passkeys) === 0) throw new Error('Cannot remove the last login method');
+
+    user.identities = remaining.identities;
+    await this.storage.put(AUTH_DATA_KEY, user);
+    const aliasDO = getUserDO(this.findUserDONamespace(), aliasNameFor(identity));
+    await aliasDO.releaseAlias({ email: user.email });
+    this.broadcast('identity:unlinked', { id });
+    return { ok: true };
+  }
+
+  // Helper methods for cross-UserDO access (alias records)
+  async getAlias(): Promise<{ email: string } | null> {
+    const alias = await this.storage.get<Alias>(ALIAS_KEY);
+    return alias ? { email: alias.email } : null;
+  }
+
+  async claimAlias({ email, identity }: Alias): Promise<{ ok: boolean }> {
+    const existing = await this.storage.get<Alias>(ALIAS_KEY);
+    if (await this.storage.get<User>(AUTH_DATA_KEY) || (existing && existing.email !== email)) {
+      throw new Error('Identity already linked to another account');
+    }
+    await this.storage.put<Alias>(ALIAS_KEY, { email, identity });
+    return { ok: true };
+  }
+
+  // Follow the account to its new email
+  async moveAlias({ from, to }: { from: string; to: string }): Promise<{ ok: boolean }> {
+    const existing = await this.storage.get<Alias>(ALIAS_KEY);
+    if (existing?.email === from) await this.storage.put<Alias>(ALIAS_KEY, { ...existing, email: to });
+    return { ok: true };
+  }
+
+  async releaseAlias({ email }: { email: string }): Promise<{ ok: boolean }> {
+    const existing = await this.storage.get<Alias>(ALIAS_KEY);
+    if (existing?.email === email) await this.storage.delete(ALIAS_KEY);
+    return { ok: true };
+  }
+
+  // The account an email change left behind was deleted: the address is free again,
+  // but tokens issued while the account lived here stay rejected
+  async retireAlias({ email, deletedAt }: { email: string; deletedAt: string }): Promise<{ ok: boolean }> {
+    const existing = await this.storage.get<Alias>(ALIAS_KEY);
+    if (existing?.email !== email || existing.identity !== 'moved') return { ok: true };
+    await this.storage.delete(ALIAS_KEY);
+    await this.storage.put<Tombstone>(TOMBSTONE_KEY, { deletedAt });
+    return { ok: true };
+  }
+
+  // === Administration ===
+  // Called by the admin routes, which check the caller's role first
+
+  async setRoles({ roles }: { roles: string[] }): Promise<{ roles: string[] }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    user.roles = [...new Set(roles)];
+    await this.storage.put(AUTH_DATA_KEY, user);
+    await this.updateDirectory(user);
+    return { roles: user.roles };
+  }
+
+  // Suspending ends every session and closes live connections straight away
+  async setStatus(
+    { status, reason }: { status: AccountStatus; reason?: string }
+  ): Promise<{ status: AccountStatus; statusChangedAt: string }> {
+    const user = await this.storage.get<User & LegacyRefreshTokens>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    const statusChangedAt = new Date().toISOString();
+    user.status = status;
+    user.statusReason = reason;
+    user.statusChangedAt = statusChangedAt;
+    if (status === 'suspended') {
+      user.sessions = [];
+      delete user.refreshTokens;
+      this.invalidateIssuedTokens(user);
+    }
+    await this.storage.put(AUTH_DATA_KEY, user);
+
+    this.broadcast('account:status', { status });
+    if (status === 'suspended') {
+      for (const ws of this.ctx.getWebSockets()) {
+        try {
+          ws.close(4001, ACCOUNT_SUSPENDED);
+        } catch {
+          // Already closing
+        }
+      }
+    }
+    await this.updateDirectory(user);
+    return { status, statusChangedAt };
+  }
+
+  async suspendAccount({ reason }: { reason?: string } = {}) {
+    return this.setStatus({ status: 'suspended', reason });
+  }
+
+  async reinstateAccount() {
+    return this.setStatus({ status: 'active' });
   }
 
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-    const record = await this.storage.get<{
-      count: number;
-      resetAt: number
-    }>(RATE_LIMIT_KEY);
-    if (record && record.resetAt > now) {
-      if (record.count >= RATE_LIMIT_MAX) {
-        throw new Error('Too many requests');
-      }
-      record.count += 1;
-      await this.storage.put(RATE_LIMIT_KEY, record);
-    } else {
-      const resetAt = now + RATE_LIMIT_WINDOW;
-      await this.storage.put(RATE_LIMIT_KEY, { count: 1, resetAt });
+  // Short-lived access token for support staff to see the app as the user does.
+  // It can't be refreshed, and is recorded in the user's security log before it
+  // is signed. Signing the user out everywhere revokes it too.
+  async impersonate(
+    { actor, reason, client }: { actor: Impersonator; reason?: string; client?: ClientContext }
+  ): Promise<{ token: string; expiresAt: string; user: PublicUser }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (user.status === 'suspended') throw new Error(ACCOUNT_SUSPENDED);
+    if (actor.id === user.id) throw new Error('You cannot impersonate yourself');
+
+    await this.recordSecurityEvent({ type: 'impersonation', actor, reason, ip: client?.ip, userAgent: client?.userAgent });
+    // getCustomClaims() sees a one-off session id; the token itself carries none
+    const token = await this.signAccessToken(user, { id: crypto.randomUUID(), audience: client?.audience }, actor);
+    const expiresAt = new Date(Date.now() + this.config.tokens.impersonationTtl * 1000).toISOString();
+    return { token, expiresAt, user: toPublicUser(user) };
+  }
+
+  // Account metadata for support staff; no secrets, tokens or stored data
+  async getAdminSummary(): Promise<AdminUserSummary> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    const sessions = pruneSessions(user.sessions || []);
+    const memberships = await this.storage.get<OrganizationMembership[]>('organization_memberships') || [];
+    return {
+      ...toPublicUser(user),
+      emailVerifiedAt: user.emailVerifiedAt,
+      roles: user.roles || [],
+      status: user.status || 'active',
+      statusReason: user.statusReason,
+      statusChangedAt: user.statusChangedAt,
+      totpEnabled: !!user.totp?.enabled,
+      passkeys: (await this.getPasskeys()).length,
+      identities: (await this.listIdentities()).identities,
+      sessions: sessions.length,
+      lastActiveAt: sessions.map(s => s.lastUsedAt).sort().pop(),
+      ownedOrganizations: (await this.ownedOrganizations.getAll()).length,
+      memberships: memberships.length,
+    };
+  }
+
+  // Best effort: a missed update is corrected the next time the user signs in
+  private async updateDirectory(user: User, lastLoginAt?: string): Promise<void> {
+    if (!this.env.USER_DIRECTORY) return;
+    try {
+      await getUserDirectory(this.env.USER_DIRECTORY).upsert(directoryEntry(user, lastLoginAt));
+    } catch (e) {
+      console.error('Failed to update directory entry:', e);
     }
   }
 
-  private async generateTokens(user: User): Promise<{ token: string; refreshToken: string }> {
-    const accessExp = Math.floor(Date.now() / 1000) + 15 * 60;
-    const token = await jwt.sign(
-      {
-        sub: user.id,
-        email: user.email,
-        exp: accessExp,
-      },
-      this.env.JWT_SECRET,
-    );
+  // === Security Log ===
+  // What others have done to the account, newest first, for the owner to review.
+  // Only the most recent SECURITY_LOG_MAX entries are kept.
 
-    const refreshExp = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60;
-    const refreshToken = await jwt.sign(
-      {
-        sub: user.id,
-        type: 'refresh',
-        exp: refreshExp,
-      },
-      this.env.JWT_SECRET,
-    );
+  async getSecurityLog(): Promise<{ events: SecurityEvent[] }> {
+    return { events: await this.storage.get<SecurityEvent[]>(SECURITY_LOG_KEY) || [] };
+  }
 
-    return { token, refreshToken };
+  private async recordSecurityEvent(event: Omit<SecurityEvent, 'id' | 'at'>): Promise<SecurityEvent> {
+    const entry: SecurityEvent = { id: crypto.randomUUID(), at: new Date().toISOString(), ...event };
+    const events = (await this.getSecurityLog()).events;
+    await this.storage.put(SECURITY_LOG_KEY, [entry, ...events].slice(0, SECURITY_LOG_MAX));
+    return entry;
   }
 
-  async signup(
-    { email, password }:
-      { email: string; password: string }
-  ): Promise<{
-    user: User;
-    token: string;
-    refreshToken: string
-  }> {
-    email = email.toLowerCase();
+  // === Handles ===
+  // Optional unique names. The HandleRegistryDO decides who owns a handle; the user
+  // record keeps a copy for tokens and profile responses.
+
+  async setHandle({ handle }: { handle: string }): Promise<{ handle: string }> {
     await this.checkRateLimit();
-    const parsed = SignupSchema.safeParse({ email, password });
-    if (!parsed.success) {
-      throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
-    }
-    // Check if user already exists
-    const existing = await this.storage.get<User>(AUTH_DATA_KEY);
-    if (existing) throw new Error('Email already registered');
-    const id = this.state.id.toString();
-    const createdAt = new Date().toISOString();
-    const { hash, salt } = await hashPassword(password);
-    const user: User = {
-      id,
-      email,
-      passwordHash: hash,
-      salt,
-      createdAt,
-      refreshTokens: []
-    };
-    await this.storage.put(AUTH_DATA_KEY, user);
+    const problem = handleProblem(handle);
+    if (problem) throw new Error(problem);
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (user.handle === normalizeHandle(handle)) return { handle: user.handle };
 
-    const { token, refreshToken } = await this.generateTokens(user);
+    // Renames free the old handle in the same step
+    const record = await this.requireHandleRegistry().claim({ handle, email: user.email });
+    user.handle = record.handle;
+    await this.storage.put(AUTH_DATA_KEY, user);
+    this.broadcast('user:handle', { handle: user.handle });
+    await this.updateDirectory(user);
+    return { handle: user.handle };
+  }
 
-    // Store refresh token
-    if (!user.refreshTokens) user.refreshTokens = [];
-    user.refreshTokens.push(refreshToken);
+  async removeHandle(): Promise<{ ok: boolean }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    if (!user.handle) return { ok: true };
+    await this.requireHandleRegistry().release({ email: user.email });
+    delete user.handle;
     await this.storage.put(AUTH_DATA_KEY, user);
+    this.broadcast('user:handle', { handle: null });
+    await this.updateDirectory(user);
+    return { ok: true };
+  }
 
-    return { user, token, refreshToken };
+  private requireHandleRegistry(): HandleRegistryDO {
+    if (!this.env.HANDLE_REGISTRY) throw new Error('Handles are not enabled (missing HANDLE_REGISTRY binding)');
+    return getHandleRegistry(this.env.HANDLE_REGISTRY);
   }
 
-  async login(
-    { email, password }:
-      { email: string; password: string }
-  ): Promise<{
-    user: User;
-    token: string;
-    refreshToken: string
-  }> {
+  // === Email Change ===
+  // The account lives in the object named after its email, so a new email means a
+  // new object. requestEmailChange() returns a token to mail to the new address;
+  // confirming it copies all storage (KV and SQL tables) across in pages and leaves
+  // an alias at the old address, so stale tokens and organization records naming
+  // it keep resolving. Any failure before the final commit rolls everything back.
+
+  async requestEmailChange(
+    { email }: { email: string }
+  ): Promise<{ confirmationToken: string; email: string; expiresInMinutes: number }> {
+    await this.checkRateLimit('email');
     email = email.toLowerCase();
-    await this.checkRateLimit();
-    const parsed = LoginSchema.safeParse({ email, password });
+    const parsed = EmailSchema.safeParse(email);
     if (!parsed.success) {
       throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
     }
     const user = await this.storage.get<User>(AUTH_DATA_KEY);
-    if (!user || user.email !== email) throw new Error('Invalid credentials');
-    const ok = await verifyPassword(password, user.salt, user.passwordHash);
-    if (!ok) throw new Error('Invalid credentials');
+    if (!user) throw new Error('User not found');
+    if (user.email === email) throw new Error('Email unchanged');
+    const available = await getUserDO(this.findUserDONamespace(), email).canReceiveAccount({ fromEmail: user.email });
+    if (!available) throw new Error('Email already registered');
+
+    const jti = crypto.randomUUID();
+    const confirmationToken = await this.keyRing.sign({
+      sub: user.id,
+      email: user.email,
+      newEmail: email,
+      type: 'email_change',
+      jti,
+      exp: Math.floor(Date.now() / 1000) + this.config.tokens.emailChangeTtl,
+    });
+    user.emailChangeJti = jti;
+    await this.storage.put(AUTH_DATA_KEY, user);
 
-    const { token, refreshToken } = await this.generateTokens(user);
+    return { confirmationToken, email, expiresInMinutes: this.config.tokens.emailChangeTtl / 60 };
+  }
 
-    // Store refresh token
-    if (!user.refreshTokens) user.refreshTokens = [];
-    user.refreshTokens.push(refreshToken);
+  async confirmEmailChange({ token }: { token: string }): Promise<{ email: string }> {
+    const verify = await this.keyRing.verify<JwtPayload & { newEmail?: string }>(token).catch(() => undefined);
+    const payload = verify?.payload;
+    if (!payload || payload.type !== 'email_change' || !payload.newEmail) {
+      throw new Error('Invalid confirmation token');
+    }
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    // Single use, and only the newest request counts
+    if (!user || user.id !== payload.sub || !payload.jti || payload.jti !== user.emailChangeJti) {
+      throw new Error('Invalid confirmation token');
+    }
+    delete user.emailChangeJti;
     await this.storage.put(AUTH_DATA_KEY, user);
 
-    return { user, token, refreshToken };
+    return this.changeEmail({ email: payload.newEmail, verified: true });
   }
 
-  async raw(): Promise<User> {
+  // Moves the account without a confirmation step (admin tooling). The new address
+  // is only marked verified when the caller has confirmed it.
+  async changeEmail(
+    { email, verified = false }: { email: string; verified?: boolean }
+  ): Promise<{ email: string }> {
+    email = email.toLowerCase();
+    // Nothing else may touch this object while it is copied
+    return this.ctx.blockConcurrencyWhile(() => this.moveAccount(email, verified));
+  }
+
+  private async moveAccount(email: string, verified: boolean): Promise<{ email: string }> {
     const user = await this.storage.get<User>(AUTH_DATA_KEY);
     if (!user) throw new Error('User not found');
-    return user;
+    if (user.email === email) throw new Error('Email unchanged');
+    const oldEmail = user.email;
+    const namespace = this.findUserDONamespace();
+    const target = getUserDO(namespace, email);
+
+    // Read before the copy: references to update once the move is committed
+    const ownedOrganizations = await this.ownedOrganizations.getAll() as Organization[];
+    const ownedMembers: OrganizationMember[] = [];
+    for (const organization of ownedOrganizations) {
+      ownedMembers.push(...await this.organizationMembers.where('organizationId', '==', organization.id).get());
+    }
+    const memberships = await this.storage.get<OrganizationMembership[]>('organization_memberships') || [];
+
+    // A secondary email being promoted stops being a linked identity
+    const promoted = (user.identities || []).find(i => i.type === 'email' && i.email === email);
+    const identities = (user.identities || []).filter(i => i !== promoted);
+    const movedAliases: Identity[] = [];
+    let handleMoved = false;
+    let moved: User;
+
+    await target.beginEmailChange({ fromEmail: oldEmail });
+    try {
+      let startAfter: string | undefined;
+      while (true) {
+        const page = await this.storage.list({ startAfter, limit: MOVE_KV_PAGE });
+        const entries: Record<string, unknown> = {};
+        for (const [key, value] of page) {
+          if (!NON_MOVABLE_KEYS.includes(key)) entries[key] = value;
+          startAfter = key;
+        }
+        if (Object.keys(entries).length > 0) await target.receiveEmailChangeChunk({ fromEmail: oldEmail, entries });
+        if (page.size < MOVE_KV_PAGE) break;
+      }
+
+      for (const table of this.database.storedTableNames()) {
+        let rows: StoredRow[] = [];
+        for (const row of this.database.allRows(table, MOVE_ROW_PAGE)) {
+          rows.push(row);
+          if (rows.length === MOVE_ROW_PAGE) {
+            await target.receiveEmailChangeChunk({ fromEmail: oldEmail, rows: { [table]: rows } });
+            rows = [];
+          }
+        }
+        if (rows.length > 0) await target.receiveEmailChangeChunk({ fromEmail: oldEmail, rows: { [table]: rows } });
+      }
+
+      for (const identity of identities) {
+        await getUserDO(namespace, aliasNameFor(identity)).moveAlias({ from: oldEmail, to: email });
+        movedAliases.push(identity);
+      }
+      if (user.handle) {
+        await this.requireHandleRegistry().moveEmail({ from: oldEmail, to: email });
+        handleMoved = true;
+      }
+
+      const now = new Date().toISOString();
+      moved = {
+        ...user,
+        id: namespace.idFromName(email).toString(),
+        email,
+        emailVerified: verified || !!promoted,
+        emailVerifiedAt: verified || promoted ? now : undefined,
+        identities,
+        formerIds: [...(user.formerIds || []), user.id],
+      };
+      delete moved.emailChangeJti;
+      await target.commitEmailChange({ fromEmail: oldEmail, user: moved });
+    } catch (err) {
+      console.error(`Email change from ${oldEmail} failed, rolling back:`, err);
+      await target.abortEmailChange({ fromEmail: oldEmail }).catch(e => console.error('Rollback failed:', e));
+      await Promise.allSettled([
+        ...movedAliases.map(identity =>
+          getUserDO(namespace, aliasNameFor(identity)).moveAlias({ from: email, to: oldEmail })
+        ),
+        ...(handleMoved ? [this.requireHandleRegistry().moveEmail({ from: email, to: oldEmail })] : []),
+      ]);
+      throw err;
+    }
+
+    // Committed: this object now only forwards to the new one
+    this.broadcast('account:email_changed', { email });
+    await this.storage.deleteAll();
+    this.database.restoreTables();
+    await this.storage.put<Alias>(ALIAS_KEY, { email, identity: 'moved' });
+
+    // Best effort: the aliases above keep stale references working anyway
+    await Promise.allSettled([
+      ...(this.env.USER_DIRECTORY
+        ? [getUserDirectory(this.env.USER_DIRECTORY).rename({ from: oldEmail, entry: directoryEntry(moved!) })]
+        : []),
+      // Addresses from earlier changes forward here directly instead of in a chain
+      ...(user.formerIds || []).map(id =>
+        (namespace.get(namespace.idFromString(id)) as unknown as UserDO).moveAlias({ from: oldEmail, to: email })
+      ),
+      ...ownedMembers.map(member => getUserDO(namespace, member.email).addMembership({
+        organizationId: member.organizationId,
+        organizationName: ownedOrganizations.find(o => o.id === member.organizationId)!.name,
+        ownerEmail: email,
+        role: member.role,
+        joinedAt: member.createdAt,
+      })),
+      ...memberships.map(m => getUserDO(namespace, m.ownerEmail).updateMemberEmail({
+        organizationId: m.organizationId, from: oldEmail, to: email,
+      })),
+    ]);
+
+    console.log(`📧 Moved account ${oldEmail} -> ${email}`);
+    return { email };
   }
 
-  async init(user: User): Promise<{ ok: boolean }> {
-    const parsed = InitSchema.safeParse(user);
-    if (!parsed.success) {
-      throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
+  // Whether an account moving here from fromEmail would collide with anything
+  async canReceiveAccount({ fromEmail }: { fromEmail: string }): Promise<boolean> {
+    if (await this.storage.get<User>(AUTH_DATA_KEY)) return false;
+    const alias = await this.storage.get<Alias>(ALIAS_KEY);
+    return !alias || alias.email === fromEmail;
+  }
+
+  // Reserves this address for an account moving in from fromEmail
+  async beginEmailChange({ fromEmail }: { fromEmail: string }): Promise<{ ok: boolean }> {
+    if (!await this.canReceiveAccount({ fromEmail })) throw new Error('Email already registered');
+    const pending = await this.storage.get<IncomingMove>(INCOMING_MOVE_KEY);
+    if (pending) {
+      if (Date.now() - pending.startedAt < MOVE_STALE_AFTER) throw new Error('Email change already in progress');
+      await this.abortEmailChange({ fromEmail: pending.from });
+    }
+
+    const previous: Record<string, unknown> = {};
+    for (const key of [ALIAS_KEY, TOMBSTONE_KEY]) {
+      const value = await this.storage.get(key);
+      if (value !== undefined) previous[key] = value;
     }
+    await this.storage.put<IncomingMove>(INCOMING_MOVE_KEY, { from: fromEmail, startedAt: Date.now(), previous });
+    return { ok: true };
+  }
+
+  private async expectIncomingMove(fromEmail: string): Promise<IncomingMove> {
+    const pending = await this.storage.get<IncomingMove>(INCOMING_MOVE_KEY);
+    if (!pending || pending.from !== fromEmail) throw new Error('No email change in progress');
+    return pending;
+  }
+
+  async receiveEmailChangeChunk(
+    { fromEmail, entries, rows }:
+      { fromEmail: string; entries?: Record<string, unknown>; rows?: Record<string, StoredRow[]> }
+  ): Promise<{ ok: boolean }> {
+    await this.expectIncomingMove(fromEmail);
+    if (entries) await this.storage.put(entries);
+    if (rows) this.database.importRows(rows);
+    return { ok: true };
+  }
+
+  async commitEmailChange({ fromEmail, user }: { fromEmail: string; user: User }): Promise<{ ok: boolean }> {
+    await this.expectIncomingMove(fromEmail);
     await this.storage.put(AUTH_DATA_KEY, user);
+    await this.storage.delete([ALIAS_KEY, INCOMING_MOVE_KEY]);
     return { ok: true };
   }
 
-  async deleteUser(): Promise<{ ok: boolean }> {
-    await this.storage.delete(AUTH_DATA_KEY);
+  // Drops everything copied so far and puts back what the object held before
+  async abortEmailChange({ fromEmail }: { fromEmail: string }): Promise<{ ok: boolean }> {
+    const { previous } = await this.expectIncomingMove(fromEmail);
+    await this.storage.deleteAll();
+    this.database.restoreTables();
+    if (Object.keys(previous).length > 0) await this.storage.put(previous);
     return { ok: true };
   }
 
-  // Change password method
-  async changePassword(
-    { oldPassword, newPassword }:
-      { oldPassword: string; newPassword: string }
-  ): Promise<{ ok: boolean }> {
+  // === Passkeys (WebAuthn) ===
+
+  private async storeChallenge(type: WebAuthnChallenge['type']): Promise<string> {
+    const challenge = generateChallenge();
+    await this.storage.put<WebAuthnChallenge>(WEBAUTHN_CHALLENGE_KEY, {
+      challenge,
+      type,
+      expiresAt: Date.now() + WEBAUTHN_CONFIG.challengeTtl,
+    });
+    return challenge;
+  }
+
+  // Challenges are single use: read and delete in one step
+  private async consumeChallenge(type: WebAuthnChallenge['type']): Promise<string> {
+    const record = await this.storage.get<WebAuthnChallenge>(WEBAUTHN_CHALLENGE_KEY);
+    await this.storage.delete(WEBAUTHN_CHALLENGE_KEY);
+    if (!record || record.type !== type || record.expiresAt < Date.now()) {
+      throw new Error('Passkey challenge expired or missing');
+    }
+    return record.challenge;
+  }
+
+  private async getPasskeys(): Promise<Passkey[]> {
+    return await this.storage.get<Passkey[]>(PASSKEYS_KEY) || [];
+  }
+
+  async createPasskeyRegistrationOptions(
+    { rpId, rpName }: { rpId: string; rpName: string }
+  ) {
     const user = await this.storage.get<User>(AUTH_DATA_KEY);
     if (!user) throw new Error('User not found');
-    // Validate old password
-    const ok = await verifyPassword(oldPassword, user.salt, user.passwordHash);
-    if (!ok) throw new Error('Invalid current password');
-    // Validate new password
-    const parsed = SignupSchema.shape.password.safeParse(newPassword);
-    if (!parsed.success) {
-      throw new Error('Invalid new password: ' + JSON.stringify(parsed.error.flatten()));
-    }
-    // Hash new password
-    const { hash, salt } = await hashPassword(newPassword);
-    user.passwordHash = hash;
-    user.salt = salt;
-    await this.storage.put(AUTH_DATA_KEY, user);
-    return { ok: true };
+    const passkeys = await this.getPasskeys();
+    const challenge = await this.storeChallenge('registration');
+
+    return {
+      challenge,
+      rp: { id: rpId, name: rpName },
+      user: {
+        id: base64UrlEncode(new TextEncoder().encode(user.id)),
+        name: user.email,
+        displayName: user.email,
+      },
+      pubKeyCredParams: [
+        { type: 'public-key' as const, alg: COSE_ALG_ES256 },
+        { type: 'public-key' as const, alg: COSE_ALG_RS256 },
+      ],
+      timeout: WEBAUTHN_CONFIG.timeout,
+      attestation: 'none' as const,
+      excludeCredentials: passkeys.map(p => ({ type: 'public-key' as const, id: p.id, transports: p.transports })),
+      authenticatorSelection: {
+        residentKey: 'preferred' as const,
+        userVerification: 'preferred' as const,
+      },
+    };
   }
 
-  // Reset password method (for use after verifying a reset token)
-  async resetPassword(
-    { newPassword }: { newPassword: string }
-  ): Promise<{ ok: boolean }> {
+  async verifyPasskeyRegistration(
+    { response, rp, name }:
+      { response: RegistrationResponseJSON; rp: RelyingParty; name?: string }
+  ): Promise<{ passkey: PasskeyInfo }> {
     const user = await this.storage.get<User>(AUTH_DATA_KEY);
     if (!user) throw new Error('User not found');
-    // Validate new password
-    const parsed = SignupSchema.shape.password.safeParse(newPassword);
-    if (!parsed.success) {
-      throw new Error('Invalid new password: ' + JSON.stringify(parsed.error.flatten()));
+    const challenge = await this.consumeChallenge('registration');
+
+    const credential = await verifyRegistrationResponse(response, challenge, rp);
+    const passkeys = await this.getPasskeys();
+    if (passkeys.some(p => p.id === credential.id)) {
+      throw new Error('Passkey already registered');
     }
-    // Hash new password
-    const { hash, salt } = await hashPassword(newPassword);
-    user.passwordHash = hash;
-    user.salt = salt;
-    await this.storage.put(AUTH_DATA_KEY, user);
-    return { ok: true };
+
+    const passkey: Passkey = {
+      ...credential,
+      publicKey: credential.publicKey as Record<string, unknown>,
+      name: name || `Passkey ${passkeys.length + 1}`,
+      createdAt: new Date().toISOString(),
+    };
+    passkeys.push(passkey);
+    await this.storage.put(PASSKEYS_KEY, passkeys);
+
+    this.broadcast('passkey:added', { id: passkey.id, name: passkey.name });
+
+    return { passkey: toPasskeyInfo(passkey) };
   }
 
-  // Generate password reset token (expires in 1 hour)
-  async generatePasswordResetToken(): Promise<{ resetToken: string }> {
+  // Accounts that don't exist or have no passkeys get options for a made-up
+  // credential, kept the same across requests, so the answer doesn't reveal either
+  async createPasskeyLoginOptions({ rpId }: { rpId: string }) {
     const user = await this.storage.get<User>(AUTH_DATA_KEY);
-    if (!user) throw new Error('User not found');
+    const passkeys = user ? await this.getPasskeys() : [];
+    const allowCredentials = passkeys.length
+      ? passkeys.map(p => ({ type: 'public-key' as const, id: p.id, transports: p.transports }))
+      : [await this.getPasskeyDecoy()];
+    const challenge = await this.storeChallenge('authentication');
 
-    const resetExp = Math.floor(Date.now() / 1000) + 60 * 60; // 1 hour
-    const resetToken = await jwt.sign({
-      sub: user.id,
-      email: user.email,
-      type: 'password_reset',
-      exp: resetExp
-    }, this.env.JWT_SECRET);
+    return {
+      challenge,
+      rpId,
+      timeout: WEBAUTHN_CONFIG.timeout,
+      userVerification: 'preferred' as const,
+      allowCredentials,
+    };
+  }
 
-    return { resetToken };
+  private async getPasskeyDecoy() {
+    let decoy = await this.storage.get<{ id: string; transports: string[] }>(PASSKEY_DECOY_KEY);
+    if (!decoy) {
+      decoy = { id: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16))), transports: ['hybrid', 'internal'] };
+      await this.storage.put(PASSKEY_DECOY_KEY, decoy);
+    }
+    return { type: 'public-key' as const, ...decoy };
   }
 
-  // Reset password with token
-  async resetPasswordWithToken(
-    { resetToken, newPassword }: { resetToken: string; newPassword: string }
-  ): Promise<{ ok: boolean }> {
+  // Passkeys are phishing resistant, so they satisfy MFA on their own. Failed
+  // assertions count towards the same backoff as wrong passwords.
+  async verifyPasskeyLogin(
+    { response, rp, client }: { response: AuthenticationResponseJSON; rp: RelyingParty; client?: ClientContext }
+  ): Promise<AuthResult> {
+    await this.checkLoginBackoff(client);
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    const passkeys = user ? await this.getPasskeys() : [];
+    const passkey = passkeys.find(p => p.id === response.id || p.id === response.rawId);
     try {
-      const verify = await jwt.verify(resetToken, this.env.JWT_SECRET) as JwtData<JwtPayload & { type: string }, {}>;
-      if (!verify || !verify.payload || verify.payload.type !== 'password_reset') {
-        throw new Error('Invalid reset token');
-      }
-
-      const user = await this.storage.get<User>(AUTH_DATA_KEY);
-      if (!user) throw new Error('User not found');
+      const challenge = await this.consumeChallenge('authentication');
+      if (!user || !passkey) throw new Error('Invalid credentials');
+      const { signCount } = await verifyAuthenticationResponse(response, challenge, passkey, rp);
+      passkey.signCount = signCount;
+    } catch (e) {
+      await this.recordLoginFailure(client);
+      throw e;
+    }
+    await this.clearLoginFailures(client);
+    passkey.lastUsedAt = new Date().toISOString();
+    await this.storage.put(PASSKEYS_KEY, passkeys);
 
-      // Validate new password
-      const parsed = SignupSchema.shape.password.safeParse(newPassword);
-      if (!parsed.success) {
-        throw new Error('Invalid new password: ' + JSON.stringify(parsed.error.flatten()));
-      }
+    return this.issueTokens(user, client);
+  }
 
-      // Hash new password
-      const { hash, salt } = await hashPassword(newPassword);
-      user.passwordHash = hash;
-      user.salt = salt;
-      await this.storage.put(AUTH_DATA_KEY, user);
+  async listPasskeys(): Promise<{ passkeys: PasskeyInfo[] }> {
+    const passkeys = await this.getPasskeys();
+    return { passkeys: passkeys.map(toPasskeyInfo) };
+  }
 
-      return { ok: true };
-    } catch (err) {
-      throw new Error('Invalid reset token');
+  async renamePasskey(id: string, name: string): Promise<{ passkey: PasskeyInfo }> {
+    const parsed = PasskeySchema.shape.name.min(1).max(64).safeParse(name);
+    if (!parsed.success) {
+      throw new Error('Invalid input: ' + JSON.stringify(parsed.error.flatten()));
     }
+    const passkeys = await this.getPasskeys();
+    const passkey = passkeys.find(p => p.id === id);
+    if (!passkey) throw new Error('Passkey not found');
+
+    passkey.name = parsed.data;
+    await this.storage.put(PASSKEYS_KEY, passkeys);
+    return { passkey: toPasskeyInfo(passkey) };
+  }
+
+  async removePasskey(id: string): Promise<{ ok: boolean }> {
+    const passkeys = await this.getPasskeys();
+    const remaining = passkeys.filter(p => p.id !== id);
+    if (remaining.length === passkeys.length) throw new Error('Passkey not found');
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (user && countLoginMethods(user, remaining) === 0) throw new Error('Cannot remove the last login method');
+
+    await this.storage.put(PASSKEYS_KEY, remaining);
+    this.broadcast('passkey:removed', { id });
+    return { ok: true };
   }
 
   async verifyToken(
-    { token }: { token: string }
+    { token, audience }: { token: string; audience?: string }
   ): Promise<{
     ok: boolean;
-    user?: { id: string; email: string }
+    user?: { id: string; email: string; emailVerified: boolean; handle?: string; roles: string[] }
+    // Staff member using an impersonation token
+    impersonator?: Impersonator;
+    // All claims of the token, including those from getCustomClaims()
+    claims?: Record<string, unknown>;
     error?: string
   }> {
     try {
-      const verify = await jwt.verify(
-        token, this.env.JWT_SECRET
-      ) as JwtData<JwtPayload, {}>;
+      const verify = await this.keyRing.verify<JwtPayload>(token);
       if (!verify) throw new Error('Invalid token');
       const { payload } = verify;
       if (!payload) throw new Error('Invalid token');
       const { sub, email } = payload as JwtPayload;
       if (!sub || !email) throw new Error('Invalid token');
+      // Refresh, reset and MFA challenge tokens are not access tokens
+      if (payload.type) throw new Error('Invalid token type');
+      checkIssuerAndAudience(payload, this.tokenIssuer, audience || this.tokenAudience);
 
       const user = await this.storage.get<User>(AUTH_DATA_KEY);
-      if (!user) throw new Error('User not found');
-      if (payload.sub !== user.id) {
+      if (!user) {
+        // Tokens from before an email change still name the old address
+        const target = await this.forwardingTarget();
+        if (target) return target.verifyToken({ token, audience });
+        throw new Error('User not found');
+      }
+      if (payload.sub !== user.id && !(user.formerIds || []).includes(payload.sub)) {
         throw new Error('Token subject mismatch');
       }
-      return { ok: true, user: { id: user.id, email: user.email } };
+      if (user.status === 'suspended') throw new Error(ACCOUNT_SUSPENDED);
+      // Revoked sessions lose access before their access token expires
+      if (payload.sid && !(user.sessions || []).some(s => s.id === payload.sid && s.expiresAt > Date.now())) {
+        throw new Error('Session revoked');
+      }
+      if (user.tokensValidAfter && (payload.iat ?? 0) <= user.tokensValidAfter) {
+        throw new Error('Token revoked');
+      }
+      if (payload.jti && (await this.storage.get<TokenDenylist>(TOKEN_DENYLIST_KEY))?.[payload.jti]) {
+        throw new Error('Token revoked');
+      }
+      const tombstone = await this.storage.get<Tombstone>(TOMBSTONE_KEY);
+      if (tombstone && (payload.iat ?? 0) < Date.parse(tombstone.deletedAt) / 1000) {
+        throw new Error('Token revoked');
+      }
+      return {
+        ok: true,
+        user: { id: user.id, email: user.email, emailVerified: !!user.emailVerified, handle: user.handle, roles: user.roles || [] },
+        ...(payload.act ? { impersonator: { id: payload.act.sub, email: payload.act.email } } : {}),
+        claims: payload,
+      };
     } catch (err) {
       return { ok: false, error: err instanceof Error ? err.message : String(err) };
     }
@@ -442,62 +2274,187 @@ export class UserDO extends DurableObject {
     return await this.storage.get(key);
   }
 
+  // Rotates the refresh token: the presented one is spent and a successor for the same
+  // session is returned. Presenting a spent token again revokes the session, except
+  // within a short grace window where concurrent requests get the same successor.
   async refreshToken(
-    { refreshToken }: { refreshToken: string }
-  ): Promise<{ token: string }> {
-    try {
-      const verify = await jwt.verify(
-        refreshToken, this.env.JWT_SECRET
-      ) as JwtData<JwtPayload & { type: string }, {}>;
+    { refreshToken, client }: { refreshToken: string; client?: ClientContext }
+  ): Promise<{ token: string; refreshToken: string }> {
+    const verify = await this.keyRing.verify<JwtPayload>(refreshToken).catch(() => undefined);
+    const payload = verify?.payload;
+    if (!payload || payload.type !== 'refresh') {
+      throw new Error('Invalid refresh token');
+    }
 
-      if (!verify || !verify.payload || verify.payload.type !== 'refresh') {
-        throw new Error('Invalid refresh token');
-      }
+    const user = await this.storage.get<User & LegacyRefreshTokens>(AUTH_DATA_KEY);
+    if (!user) {
+      const target = await this.forwardingTarget();
+      if (target) return target.refreshToken({ refreshToken, client });
+    }
+    if (!user || (user.id !== payload.sub && !(user.formerIds || []).includes(payload.sub))) {
+      throw new Error('Invalid refresh token');
+    }
+    if (user.status === 'suspended') throw new Error(ACCOUNT_SUSPENDED);
+    user.sessions = pruneSessions(user.sessions || []);
+
+    if (!payload.sid) {
+      // Issued before sessions: accept it once and move it into a new session
+      const legacy = user.refreshTokens || [];
+      const remaining = legacy.filter(t => typeof t === 'string' ? t !== refreshToken : t.jti !== payload.jti);
+      if (remaining.length === legacy.length) throw new Error('Invalid refresh token');
+      user.refreshTokens = remaining;
+      const { token, refreshToken: successor } = await this.issueTokens(user, client);
+      return { token, refreshToken: successor };
+    }
 
-      const user = await this.storage.get<User>(AUTH_DATA_KEY);
-      if (!user) throw new Error('User not found');
+    const session = user.sessions.find(s => s.id === payload.sid);
+    const record = session?.refreshTokens.find(t => t.jti === payload.jti);
+    if (!session || !record) throw new Error('Invalid refresh token');
+    // A refresh token only works for the app its session was created for
+    if (client?.audience && client.audience !== (session.audience || this.tokenAudience)) {
+      throw new Error('Invalid refresh token');
+    }
 
-      // Verify refresh token is in user's list
-      if (!user.refreshTokens.includes(refreshToken)) {
-        throw new Error('Refresh token not found');
+    if (record.usedAt) {
+      if (record.replacedBy && Date.now() - record.usedAt <= this.config.tokens.refreshReuseGrace * 1000) {
+        return { token: await this.signAccessToken(user, session), refreshToken: record.replacedBy };
       }
+      // A spent token came back: assume it was stolen and end that session
+      user.sessions = user.sessions.filter(s => s.id !== session.id);
+      await this.storage.put(AUTH_DATA_KEY, user);
+      console.warn(`🚨 Refresh token reuse detected, revoked session ${session.id}`);
+      this.broadcast('auth:refresh_reuse_detected', { sessionId: session.id });
+      throw new Error('Refresh token reuse detected');
+    }
 
-      // Generate new access token
-      const accessExp = Math.floor(Date.now() / 1000) + 15 * 60;
-      const token = await jwt.sign({
-        sub: user.id,
-        email: user.email,
-        exp: accessExp
-      }, this.env.JWT_SECRET);
+    const successor = await this.createRefreshToken(user, session);
+    record.usedAt = Date.now();
+    record.replacedBy = successor;
+    session.lastUsedAt = new Date().toISOString();
+    if (client?.ip) session.ip = client.ip;
+    if (client?.country) session.country = client.country;
 
-      return { token };
-    } catch (err) {
-      throw new Error('Invalid refresh token');
-    }
+    await this.storage.put(AUTH_DATA_KEY, user);
+    return { token: await this.signAccessToken(user, session), refreshToken: successor };
   }
 
+  // Ends the session the token belongs to
   async revokeRefreshToken(
     { refreshToken }: { refreshToken: string }
   ): Promise<{ ok: boolean }> {
-    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    let sessionId: string | undefined;
+    try {
+      sessionId = jwt.decode<JwtPayload>(refreshToken).payload?.sid;
+    } catch {
+      // Malformed token - nothing to revoke
+    }
+    if (sessionId) await this.revokeSession(sessionId).catch(() => undefined);
+    return { ok: true };
+  }
+
+  async revokeAllRefreshTokens(): Promise<{ ok: boolean }> {
+    const user = await this.storage.get<User & LegacyRefreshTokens>(AUTH_DATA_KEY);
     if (!user) throw new Error('User not found');
 
-    user.refreshTokens = user.refreshTokens.filter(token => token !== refreshToken);
+    user.sessions = [];
+    delete user.refreshTokens;
+    this.invalidateIssuedTokens(user);
     await this.storage.put(AUTH_DATA_KEY, user);
+    this.broadcast('session:revoked', { all: true });
     return { ok: true };
   }
 
-  async revokeAllRefreshTokens(): Promise<{ ok: boolean }> {
+  // Every access token issued so far stops working; sessions that are still
+  // active pick up a new one on their next refresh (the caller saves)
+  private invalidateIssuedTokens(user: User): void {
+    user.tokensValidAfter = Math.floor(Date.now() / 1000);
+  }
+
+  // Rejects one access token before it expires
+  async revokeAccessToken({ token }: { token: string }): Promise<{ ok: boolean }> {
+    const payload = (await this.keyRing.verify<JwtPayload & { exp?: number }>(token).catch(() => undefined))?.payload;
+    // Expired or forged tokens are already rejected
+    if (!payload?.jti || !payload.exp || payload.type) return { ok: true };
+
+    const now = Date.now();
+    const denylist = Object.fromEntries(
+      Object.entries(await this.storage.get<TokenDenylist>(TOKEN_DENYLIST_KEY) || {}).filter(([, exp]) => exp > now)
+    );
+    if (Object.keys(denylist).length >= TOKEN_DENYLIST_MAX) {
+      // Too many to track one by one: revoke everything issued so far instead
+      const user = await this.storage.get<User>(AUTH_DATA_KEY);
+      if (user) {
+        this.invalidateIssuedTokens(user);
+        await this.storage.put(AUTH_DATA_KEY, user);
+      }
+      await this.storage.delete(TOKEN_DENYLIST_KEY);
+      return { ok: true };
+    }
+    denylist[payload.jti] = payload.exp * 1000;
+    await this.storage.put(TOKEN_DENYLIST_KEY, denylist);
+    return { ok: true };
+  }
+
+  // Ends the given session, or every session when none is given. The access token
+  // used to log out is rejected straight away, and so is every other token issued
+  // before now (other devices refresh theirs transparently).
+  async logout(
+    { sessionId, accessToken }: { sessionId?: string; accessToken?: string } = {}
+  ): Promise<{ ok: boolean }> {
+    const target = await this.forwardingTarget();
+    if (target) return target.logout({ sessionId, accessToken });
+    if (accessToken) await this.revokeAccessToken({ token: accessToken });
+    if (!sessionId) return this.revokeAllRefreshTokens();
+
+    await this.revokeSession(sessionId).catch(() => undefined);
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (user) {
+      this.invalidateIssuedTokens(user);
+      await this.storage.put(AUTH_DATA_KEY, user);
+    }
+    return { ok: true };
+  }
+
+  // === Sessions ===
+
+  async listSessions(
+    { currentSessionId }: { currentSessionId?: string } = {}
+  ): Promise<{ sessions: SessionInfo[] }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    const sessions = pruneSessions(user.sessions || [])
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .map(session => toSessionInfo(session, currentSessionId));
+    return { sessions };
+  }
+
+  // Signs one device out; its access token stops working right away
+  async revokeSession(sessionId: string): Promise<{ ok: boolean }> {
     const user = await this.storage.get<User>(AUTH_DATA_KEY);
     if (!user) throw new Error('User not found');
+    const sessions = user.sessions || [];
+    if (!sessions.some(s => s.id === sessionId)) throw new Error('Session not found');
 
-    user.refreshTokens = [];
+    user.sessions = sessions.filter(s => s.id !== sessionId);
     await this.storage.put(AUTH_DATA_KEY, user);
+    this.broadcast('session:revoked', { id: sessionId });
     return { ok: true };
   }
 
-  async logout(): Promise<{ ok: boolean }> {
-    return this.revokeAllRefreshTokens();
+  // "Sign out other devices"
+  async revokeOtherSessions(
+    { currentSessionId }: { currentSessionId: string }
+  ): Promise<{ ok: boolean; revoked: number }> {
+    const user = await this.storage.get<User & LegacyRefreshTokens>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+    const sessions = user.sessions || [];
+
+    user.sessions = sessions.filter(s => s.id === currentSessionId);
+    delete user.refreshTokens;
+    await this.storage.put(AUTH_DATA_KEY, user);
+    const revoked = sessions.length - user.sessions.length;
+    this.broadcast('session:revoked', { others: true, count: revoked });
+    return { ok: true, revoked };
   }
 
   // === Organization Management ===
@@ -576,6 +2533,8 @@ export class UserDO extends DurableObject {
 
   // Helper method for cross-UserDO access
   async getOwnedOrganization(organizationId: string): Promise<{ organization: Organization; members: OrganizationMember[] }> {
+    const target = await this.forwardingTarget();
+    if (target) return target.getOwnedOrganization(organizationId);
     const organization = await this.ownedOrganizations.findById(organizationId);
 
     if (!organization) throw new Error('Organization not found');
@@ -647,6 +2606,8 @@ export class UserDO extends DurableObject {
 
   // Helper method to add membership to a user's UserDO
   async addMembership(membership: OrganizationMembership): Promise<void> {
+    const target = await this.forwardingTarget();
+    if (target) return target.addMembership(membership);
     const memberships = await this.storage.get<OrganizationMembership[]>('organization_memberships') || [];
 
     // Check if membership already exists
@@ -663,6 +2624,8 @@ export class UserDO extends DurableObject {
   }
 
   async removeOrganizationMember(organizationId: string, userId: string): Promise<{ ok: boolean }> {
+    const target = await this.forwardingTarget();
+    if (target) return target.removeOrganizationMember(organizationId, userId);
     const user = await this.storage.get<User>(AUTH_DATA_KEY);
     if (!user) throw new Error('User not found');
 
@@ -696,13 +2659,59 @@ export class UserDO extends DurableObject {
     return { ok: true };
   }
 
+  // Takes over an organization from an owner who is deleting their account: its
+  // record, member list and organization-scoped data, with the same ids
+  async adoptOrganization(
+    { organizationId, rows }: { organizationId: string; rows: Record<string, StoredRow[]> }
+  ): Promise<{ ownerEmail: string }> {
+    const user = await this.storage.get<User>(AUTH_DATA_KEY);
+    if (!user) throw new Error('User not found');
+
+    this.database.importRows(rows);
+    await this.ownedOrganizations.update(organizationId, { ownerId: user.id });
+    const self = await this.organizationMembers
+      .where('organizationId', '==', organizationId)
+      .where('email', '==', user.email)
+      .first();
+    if (self) await this.organizationMembers.delete(self.id);
+    await this.removeMembership(organizationId);
+
+    this.broadcast('organization:transferred', { organizationId });
+    return { ownerEmail: user.email };
+  }
+
   // Helper method to remove membership from a user's UserDO
   async removeMembership(organizationId: string): Promise<void> {
+    const target = await this.forwardingTarget();
+    if (target) return target.removeMembership(organizationId);
     const memberships = await this.storage.get<OrganizationMembership[]>('organization_memberships') || [];
     const updatedMemberships = memberships.filter(m => m.organizationId !== organizationId);
     await this.storage.put('organization_memberships', updatedMemberships);
   }
 
+  // Called when a member moves their account to a new email
+  async updateMemberEmail(
+    { organizationId, from, to }: { organizationId: string; from: string; to: string }
+  ): Promise<{ ok: boolean }> {
+    const target = await this.forwardingTarget();
+    if (target) return target.updateMemberEmail({ organizationId, from, to });
+
+    const member = await this.organizationMembers
+      .where('organizationId', '==', organizationId)
+      .where('email', '==', from)
+      .first();
+    if (member) await this.organizationMembers.update(member.id, { email: to, userId: await hashEmailForId(to) });
+    return { ok: true };
+  }
+
+  // The account's object when this one only holds an alias to it (a linked identity,
+  // or the address the account had before an email change)
+  private async forwardingTarget(): Promise<UserDO | null> {
+    if (await this.storage.get<User>(AUTH_DATA_KEY)) return null;
+    const alias = await this.storage.get<Alias>(ALIAS_KEY);
+    return alias ? getUserDO(this.findUserDONamespace(), alias.email) : null;
+  }
+
   // Helper to find the correct UserDO namespace dynamically
   private findUserDONamespace(): DurableObjectNamespace<UserDO> {
     // Try USERDO first (default)
@@ -742,6 +2751,14 @@ export class UserDO extends DurableObject {
 
     // Handle WebSocket upgrades directly in the UserDO
     if (request.headers.get('upgrade') === 'websocket') {
+      // Only the account's own, still valid access token may connect
+      const token = (request.headers.get('cookie') || '').match(/(?:^|;\s*)token=([^;]+)/)?.[1] || '';
+      const audience = request.headers.get(WEBSOCKET_AUDIENCE_HEADER) || undefined;
+      const auth = await this.verifyToken({ token, audience });
+      if (!auth.ok) {
+        return new Response(auth.error || 'Unauthorized', { status: auth.error === ACCOUNT_SUSPENDED ? 403 : 401 });
+      }
+
       const webSocketPair = new WebSocketPair();
       const [client, server] = Object.values(webSocketPair);
 
@@ -1,16 +1,39 @@
 import { getCookie, setCookie, deleteCookie } from 'hono/cookie'
-import type { Context, Next } from 'hono'
-import type { UserDO } from './UserDO.js'
+import type { Context, MiddlewareHandler, Next } from 'hono'
+import type { UserDO, ClientContext } from './UserDO.js'
 
 const isRequestSecure = (c: Context) => new URL(c.req.url).protocol === 'https:'
 
 export type GetUserDO = (c: Context, email: string) => UserDO
 
-export function createAuthMiddleware(getUserDO: GetUserDO, logPrefix = '') {
+// Device details recorded on the session a login (or refresh) belongs to.
+// audience names the app the tokens are for when several share one deployment.
+export function getClientContext(c: Context, audience?: string): ClientContext {
+  const cf = (c.req.raw as { cf?: { country?: string } }).cf
+  return {
+    userAgent: c.req.header('user-agent'),
+    ip: c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for')?.split(',')[0].trim(),
+    country: cf?.country || c.req.header('cf-ipcountry'),
+    audience
+  }
+}
+
+export type AuthMiddlewareOptions = {
+  // Only accept (and refresh) tokens issued for this app
+  audience?: string
+}
+
+// Sets c.get('user') from the token cookie, refreshing it when it has expired. An
+// Authorization: Bearer token (e.g. one from impersonation) is used instead when
+// sent; it is never refreshed. For impersonation tokens the staff member behind
+// the request is set as c.get('impersonator').
+export function createAuthMiddleware(getUserDO: GetUserDO, logPrefix = '', options: AuthMiddlewareOptions = {}) {
+  const { audience } = options
   return async (c: Context, next: Next) => {
     const url = new URL(c.req.url)
-    const token = getCookie(c, 'token') || ''
-    const refreshToken = getCookie(c, 'refreshToken') || ''
+    const bearer = c.req.header('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1]
+    const token = bearer || getCookie(c, 'token') || ''
+    const refreshToken = bearer ? '' : getCookie(c, 'refreshToken') || ''
 
     const prefix = logPrefix ? `[${logPrefix}] ` : ''
     console.log(`🔐 ${prefix}Auth check for ${url.pathname}:`, {
@@ -33,20 +56,23 @@ export function createAuthMiddleware(getUserDO: GetUserDO, logPrefix = '') {
 
         if (email) {
           const userDO = getUserDO(c, email)
-          let result = await userDO.verifyToken({ token })
+          let result = await userDO.verifyToken({ token, audience })
           console.log(`🔑 ${prefix}Token verification for ${email}:`, { success: result.ok })
 
           if (!result.ok && refreshToken) {
             try {
               console.log(`🔄 ${prefix}Attempting token refresh...`)
-              const { token: newToken } = await userDO.refreshToken({ refreshToken })
-              setCookie(c, 'token', newToken, {
+              // Refresh tokens rotate, so the new one must replace the cookie too
+              const { token: newToken, refreshToken: newRefreshToken } = await userDO.refreshToken({ refreshToken, client: getClientContext(c, audience) })
+              const cookieOptions = {
                 httpOnly: true,
                 secure: isRequestSecure(c),
                 path: '/',
-                sameSite: 'Lax'
-              })
-              result = await userDO.verifyToken({ token: newToken })
+                sameSite: 'Lax' as const
+              }
+              setCookie(c, 'token', newToken, cookieOptions)
+              setCookie(c, 'refreshToken', newRefreshToken, cookieOptions)
+              result = await userDO.verifyToken({ token: newToken, audience })
               console.log(`✅ ${prefix}Token refreshed successfully`)
             } catch (e) {
               console.log(`❌ ${prefix}Token refresh failed:`, e)
@@ -58,6 +84,10 @@ export function createAuthMiddleware(getUserDO: GetUserDO, logPrefix = '') {
           if (result.ok && result.user) {
             console.log(`👤 ${prefix}User set: ${result.user.email}`)
             c.set('user', result.user)
+            if (result.impersonator) {
+              console.log(`🎭 ${prefix}Impersonated by: ${result.impersonator.email}`)
+              c.set('impersonator', result.impersonator)
+            }
           }
         }
       } catch (e) {
@@ -68,3 +98,46 @@ export function createAuthMiddleware(getUserDO: GetUserDO, logPrefix = '') {
     await next()
   }
 }
+
+// Route guard for endpoints that need a confirmed email address.
+// Use after the auth middleware: app.use('/api/billing/*', requireVerifiedEmail())
+export function requireVerifiedEmail() {
+  return async (c: Context, next: Next) => {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Not authenticated' }, 401)
+    }
+    if (!user.emailVerified) {
+      return c.json({ error: 'Email not verified' }, 403)
+    }
+    await next()
+  }
+}
+
+// Route guard for staff endpoints: the account must hold the role. Roles are read
+// from the account on every request, so removing one takes effect immediately.
+// Use after the auth middleware: app.use('/api/admin/*', requireRole('admin'))
+export function requireRole(role: string) {
+  return async (c: Context, next: Next) => {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Not authenticated' }, 401)
+    }
+    if (!user.roles?.includes(role)) {
+      return c.json({ error: 'Forbidden' }, 403)
+    }
+    await next()
+  }
+}
+
+// Route guard for changes support staff must not make while impersonating a user,
+// such as deleting the account or changing how it signs in.
+// Use after the auth middleware: app.delete('/api/account', refuseImpersonation(), ...)
+export function refuseImpersonation(): MiddlewareHandler {
+  return async (c, next) => {
+    if (c.get('impersonator')) {
+      return c.json({ error: 'Not allowed while impersonating' }, 403)
+    }
+    await next()
+  }
+}
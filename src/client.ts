@@ -1,11 +1,28 @@
 import ReconnectingWebSocket from 'reconnecting-websocket';
 
 export interface AuthResponse {
-  user: { id: string; email: string };
+  user: { id: string; email: string; emailVerified?: boolean; handle?: string };
   token: string;
   refreshToken: string;
 }
 
+/**
+ * Returned by signup when the server requires a verified email before signing in.
+ */
+export interface EmailVerificationRequiredResponse {
+  user: { id: string; email: string; emailVerified?: boolean };
+  emailVerificationRequired: true;
+}
+
+/**
+ * Returned by login when the account has two-factor authentication enabled.
+ * Finish signing in with `verifyMfa(code)`.
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
 /**
  * Configuration options for the UserDO client
  */
@@ -28,12 +45,65 @@ export interface UserDOClientOptions {
 
 type ChangeListener = (data: any) => void;
 
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  transports?: string[];
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  createdAt: string;
+  lastUsedAt: string;
+  userAgent?: string;
+  ip?: string;
+  country?: string;
+  label?: string;
+  current: boolean;
+}
+
+export interface SecurityEvent {
+  id: string;
+  type: 'impersonation';
+  at: string;
+  // Staff member who acted on the account
+  actor: { id: string; email: string };
+  reason?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface LinkedIdentity {
+  id: string;
+  type: 'password' | 'oauth' | 'email';
+  provider?: string;
+  email?: string;
+  linkedAt?: string;
+}
+
+// navigator.credentials works with ArrayBuffers, the API with base64url strings
+const toBase64Url = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0)).buffer;
+};
+
 class UserDOClient {
   private user: { id: string; email: string } | null = null;
   private authListeners = new Set<(user: { id: string; email: string } | null) => void>();
   private ws: ReconnectingWebSocket | null = null;
   private changeListeners = new Map<string, Set<ChangeListener>>();
   private options: UserDOClientOptions;
+  private pendingMfaToken: string | null = null;
+  private refreshing: Promise<boolean> | null = null;
 
   constructor(private baseUrl: string, options: UserDOClientOptions = {}) {
     this.options = options;
@@ -103,7 +173,7 @@ class UserDOClient {
     }
   }
 
-  private async checkAuthStatus() {
+  private async checkAuthStatus(retried = false): Promise<void> {
     try {
       // Check if we're authenticated via cookies (same mechanism as server)
       const url = `${this.baseUrl}/me`;
@@ -112,6 +182,10 @@ class UserDOClient {
         credentials: 'include' // Ensure cookies are sent
       });
 
+      if (res.status === 401 && !retried && await this.refreshSession()) {
+        return this.checkAuthStatus(true);
+      }
+
       if (res.ok) {
         const data = await res.json() as { user: { id: string; email: string } };
         this.user = data.user;
@@ -219,7 +293,27 @@ class UserDOClient {
     this.authListeners.delete(listener);
   }
 
-  async signup(email: string, password: string): Promise<AuthResponse> {
+  /**
+   * Rotate the session cookies. Concurrent callers share one request because a
+   * refresh token can only be spent once - replaying it signs the session out.
+   */
+  async refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = fetch(`${this.baseUrl}/refresh`, {
+        method: "POST",
+        headers: this.headers,
+        credentials: 'include'
+      })
+        .then(res => res.ok)
+        .catch(() => false)
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  async signup(email: string, password: string): Promise<AuthResponse | EmailVerificationRequiredResponse> {
     const res = await fetch(`${this.baseUrl}/signup`, {
       method: "POST",
       headers: this.headers,
@@ -227,13 +321,41 @@ class UserDOClient {
       body: JSON.stringify({ email, password })
     });
     if (!res.ok) throw new Error(await res.text());
-    const data = (await res.json()) as AuthResponse;
+    const data = (await res.json()) as AuthResponse | EmailVerificationRequiredResponse;
+    if ('emailVerificationRequired' in data) {
+      // Account created, but no session until the email is confirmed
+      return data;
+    }
     this.user = data.user;
     this.emitAuthChange();
     return data;
   }
 
-  async login(email: string, password: string): Promise<AuthResponse> {
+  async verifyEmail(token: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/verify-email`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ token })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  // Email is only needed when not signed in
+  async resendVerificationEmail(email?: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/verify-email/resend`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify(email ? { email } : {})
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  // email may also be the account's handle
+  async login(email: string, password: string): Promise<AuthResponse | MfaChallengeResponse> {
     const res = await fetch(`${this.baseUrl}/login`, {
       method: "POST",
       headers: this.headers,
@@ -241,12 +363,96 @@ class UserDOClient {
       body: JSON.stringify({ email, password })
     });
     if (!res.ok) throw new Error(await res.text());
+    const data = (await res.json()) as AuthResponse | MfaChallengeResponse;
+    if ('mfaRequired' in data) {
+      // Not signed in yet - wait for verifyMfa()
+      this.pendingMfaToken = data.mfaToken;
+      return data;
+    }
+    this.user = data.user;
+    this.emitAuthChange();
+    return data;
+  }
+
+  // Passwordless login: emails a one-time code and magic link
+  async requestLoginCode(email: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/login/magic`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ email })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  async verifyLoginCode(email: string, code: string): Promise<AuthResponse | MfaChallengeResponse> {
+    const res = await fetch(`${this.baseUrl}/login/code`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ email, code })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = (await res.json()) as AuthResponse | MfaChallengeResponse;
+    if ('mfaRequired' in data) {
+      this.pendingMfaToken = data.mfaToken;
+      return data;
+    }
+    this.user = data.user;
+    this.emitAuthChange();
+    return data;
+  }
+
+  // Second login step for accounts with TOTP enabled
+  async verifyMfa(code: string): Promise<AuthResponse> {
+    const res = await fetch(`${this.baseUrl}/login/mfa`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ code, mfaToken: this.pendingMfaToken ?? undefined })
+    });
+    if (!res.ok) throw new Error(await res.text());
     const data = (await res.json()) as AuthResponse;
+    this.pendingMfaToken = null;
     this.user = data.user;
     this.emitAuthChange();
     return data;
   }
 
+  // TOTP management (requires an authenticated session)
+  async enrollTotp(): Promise<{ secret: string; otpauthUri: string }> {
+    const res = await fetch(`${this.baseUrl}/mfa/totp/enroll`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ secret: string; otpauthUri: string }>;
+  }
+
+  async confirmTotp(code: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/mfa/totp/confirm`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ code })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  async disableTotp(code: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/mfa/totp/disable`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ code })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
   async logout(): Promise<void> {
     await fetch(`${this.baseUrl}/logout`, {
       method: "POST",
@@ -258,6 +464,297 @@ class UserDOClient {
     this.emitAuthChange();
   }
 
+  // Sends a confirmation link to the new address; the account moves once it is opened
+  async changeEmail(email: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/email/change`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ email })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  async confirmEmailChange(token: string): Promise<{ email: string }> {
+    const res = await fetch(`${this.baseUrl}/email/change/confirm`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ token })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ email: string }>;
+  }
+
+  // Download everything stored about the account (NDJSON, manifest first)
+  async exportAccount(): Promise<Blob> {
+    const res = await fetch(`${this.baseUrl}/me/export`, {
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.blob();
+  }
+
+  // Permanently deletes the account and signs out. Owned organizations pass to their
+  // longest-standing admin unless organizations is 'delete'.
+  async deleteAccount(
+    { password, organizations }: { password?: string; organizations?: 'transfer' | 'delete' } = {}
+  ): Promise<{ ok: boolean; transferred: string[]; deleted: string[] }> {
+    const res = await fetch(`${this.baseUrl}/account`, {
+      method: "DELETE",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ password, organizations })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const result = await res.json() as { ok: boolean; transferred: string[]; deleted: string[] };
+    this.user = null;
+    this.disconnectWebSocket();
+    this.emitAuthChange();
+    return result;
+  }
+
+  // Passkey (WebAuthn) methods
+  async registerPasskey(name?: string): Promise<{ passkey: PasskeyInfo }> {
+    const optionsRes = await fetch(`${this.baseUrl}/webauthn/register/options`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!optionsRes.ok) throw new Error(await optionsRes.text());
+    const options = await optionsRes.json() as any;
+
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: fromBase64Url(options.challenge),
+        user: { ...options.user, id: fromBase64Url(options.user.id) },
+        excludeCredentials: options.excludeCredentials.map((c: any) => ({ ...c, id: fromBase64Url(c.id) })),
+      }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error('Passkey registration was cancelled');
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    const res = await fetch(`${this.baseUrl}/webauthn/register/verify`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({
+        name,
+        credential: {
+          id: credential.id,
+          rawId: toBase64Url(credential.rawId),
+          type: credential.type,
+          response: {
+            clientDataJSON: toBase64Url(response.clientDataJSON),
+            attestationObject: toBase64Url(response.attestationObject),
+            transports: response.getTransports?.(),
+          }
+        }
+      })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ passkey: PasskeyInfo }>;
+  }
+
+  async loginWithPasskey(email: string): Promise<AuthResponse> {
+    const optionsRes = await fetch(`${this.baseUrl}/webauthn/login/options`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ email })
+    });
+    if (!optionsRes.ok) throw new Error(await optionsRes.text());
+    const options = await optionsRes.json() as any;
+
+    const credential = await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: fromBase64Url(options.challenge),
+        allowCredentials: options.allowCredentials.map((c: any) => ({ ...c, id: fromBase64Url(c.id) })),
+      }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error('Passkey login was cancelled');
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    const res = await fetch(`${this.baseUrl}/webauthn/login/verify`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({
+        email,
+        credential: {
+          id: credential.id,
+          rawId: toBase64Url(credential.rawId),
+          type: credential.type,
+          response: {
+            clientDataJSON: toBase64Url(response.clientDataJSON),
+            authenticatorData: toBase64Url(response.authenticatorData),
+            signature: toBase64Url(response.signature),
+            userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+          }
+        }
+      })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = (await res.json()) as AuthResponse;
+    this.user = data.user;
+    this.emitAuthChange();
+    return data;
+  }
+
+  async listPasskeys(): Promise<PasskeyInfo[]> {
+    const res = await fetch(`${this.baseUrl}/webauthn/credentials`, {
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json() as { passkeys: PasskeyInfo[] };
+    return data.passkeys;
+  }
+
+  async renamePasskey(id: string, name: string): Promise<{ passkey: PasskeyInfo }> {
+    const res = await fetch(`${this.baseUrl}/webauthn/credentials/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ name })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ passkey: PasskeyInfo }>;
+  }
+
+  async removePasskey(id: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/webauthn/credentials/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  // Session methods
+  async listSessions(): Promise<SessionInfo[]> {
+    const res = await fetch(`${this.baseUrl}/sessions`, {
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json() as { sessions: SessionInfo[] };
+    return data.sessions;
+  }
+
+  async revokeSession(id: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/sessions/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  // Sign out every device except this one
+  async revokeOtherSessions(): Promise<{ ok: boolean; revoked: number }> {
+    const res = await fetch(`${this.baseUrl}/sessions/revoke-others`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ ok: boolean; revoked: number }>;
+  }
+
+  // What staff have done to the account, newest first
+  async getSecurityLog(): Promise<SecurityEvent[]> {
+    const res = await fetch(`${this.baseUrl}/me/security-log`, {
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json() as { events: SecurityEvent[] };
+    return data.events;
+  }
+
+  // Handle methods
+  // Setting a new handle renames; the old one becomes free for others
+  async setHandle(handle: string): Promise<{ handle: string }> {
+    const res = await fetch(`${this.baseUrl}/me/handle`, {
+      method: "PUT",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ handle })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ handle: string }>;
+  }
+
+  async removeHandle(): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/me/handle`, {
+      method: "DELETE",
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  async checkHandle(handle: string): Promise<{ handle: string; available: boolean; reason?: string }> {
+    const res = await fetch(`${this.baseUrl}/handles/${encodeURIComponent(handle)}`, {
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ handle: string; available: boolean; reason?: string }>;
+  }
+
+  // Linked identity methods
+  async listIdentities(): Promise<LinkedIdentity[]> {
+    const res = await fetch(`${this.baseUrl}/identities`, {
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json() as { identities: LinkedIdentity[] };
+    return data.identities;
+  }
+
+  // Sends a confirmation link to the address; it is linked once the link is opened
+  async addEmail(email: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/identities/email`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ email })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
+
+  async confirmEmail(token: string): Promise<{ identity: LinkedIdentity }> {
+    const res = await fetch(`${this.baseUrl}/identities/email/confirm`, {
+      method: "POST",
+      headers: this.headers,
+      credentials: 'include',
+      body: JSON.stringify({ token })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json() as Promise<{ identity: LinkedIdentity }>;
+  }
+
+  // Fails if it is the account's last way to sign in
+  async unlinkIdentity(id: string): Promise<{ ok: boolean }> {
+    const res = await fetch(`${this.baseUrl}/identities/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      headers: this.headers,
+      credentials: 'include'
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return { ok: true };
+  }
 
   // KV Storage methods
   async get(key: string): Promise<any> {
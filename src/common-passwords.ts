@@ -0,0 +1,128 @@
+// SHA-1 prefixes (first 16 hex digits) of 731 of the most common passwords in
+// public breach corpora, sorted. Only hashes are shipped, in the same shape as the
+// Pwned Passwords range API, so the list works offline inside the Worker.
+
+export const COMMON_PASSWORD_HASHES = `
+006345B12AD566BF 006839D264A38B7F 011C945F30CE2CBA 014A5F52613B4742 018F4D7F06CB8626 019DB0BFD5F85951
+01B307ACBA4F54F5 02E0A999C50B1F88 032AE6FB38DBD72A 03785D4E638CD09C 03FDF1323C8D4770 0405F09E8CCD8CE4
+043A558250409758 051522D0C46404D8 0596204590703C75 05B530AD0FB56286 05FE7461C607C332 068942C83F0E6994
+06FA905D7F2AACED 08808065106E0F48 088E4A2E6F0C2004 08B314F0E1E2C41E 08BC5BEDA7A9157E 094051FD430D8A65
+0963992090AAC2D5 09BC328680CD1C65 09F5EDEB4F5B2A4E 0A66E107BB05FD28 0AB09B420C3F4F68 0ACC7FADBC8E372A
+0AE9E4DEBA260219 0B12FC56D3B2C3F3 0B32E65D12D56178 0BCD9AF79F2D32E8 0C62CBDB682C3D53 0C6D0182595FB16D
+0C6D47A02431F6D3 0CE7911E6479995D 0E818BFA0679DF30 0F12541AFCCE175F 0F58D5A5515F1A8A 0F7D0D088B6EA936
+0FA13E9C53B81B1C 0FECA720E2C29DAF 103FEBCA8282301C 104E03314A82F3FB 10A07CDB61A9A8B2 10C28F9CF0668595
+11536F0B9652C418 11DBF66D28B6E3B7 12DEA96FEC205935 12E9293EC6B30C7F 13145D1889F70AE1 1411678A0B9E25EE
+1496AA696D9D35AA 150FF9F168A4A60C 154B96C9BCA350E9 1645EE78DE0F7C73 166ADF7CB43FC4D3 16B23C500D54837F
+16F604FC68A53995 175A8F786BF44A71 1786E3BA91DC294B 17B9E1C64588C7FA 18A98C35F49808B4 18C28604DD31094A
+19485E369C691FA8 1999E4893F732BA3 19B58543C85B97C5 1AA25EAD38808254 1ABD2C47DC248F91 1B2D43E95F16DF60
+1C1B9E266B93BDC5 1C1DBA070798A457 1C29CF0CEB89AFCE 1C60D3B6CDE0D44D 1C90591709108353 1CB5BD5A9E454203
+1CE1416347075B60 1D572ACBFA68C7C6 1DA8402449899EC1 1DC435CCBF09FCEE 1E41C981637834CA 1EE7760A3190C956
+1EF41AF4175FE164 1F0160076C9F42A1 1F5523A8F535289B 1F82C942BEFDA29B 1F8AC10F23C5B5BC 1FC854110E553248
+1FD1B4516473C36C 1FD655F2CFD95956 1FFF8C7BE7829FB6 20052A88869FB11E 20C194BD04A459A3 20D75FE135FC3ABC
+20EABE5D64B0E216 20F9A9009EB90DFD 21597A470BA16BD6 22942B7C5CDF7813 23869B733FCD6665 2394EEAC9FC3DB56
+23B36EA4F70670AE 23F2916E01209D62 2475FCB006E003DC 247731C75F3B2775 248510136410798C 250E77F12A5AB697
+2539D3DF1FCFA43C 263D00820F9F5E0A 2664AC13C6A941CB 266F83D202FA3DA4 269A03F47F0550E9 26F3CD230E935F8B
+27020B8711923FEF 271A77093BF07CDB 2736FAB291F04E69 273A0C7BD3C679BA 275992E8AC56CB21 275E5D5F064B3DB5
+2760666E055262E9 27613A753857AF67 2891BACEEEF1652E 2A12B9FD31DD6E73 2BCF58D3BC51B848 2C490B8E68B92E79
+2D27B62C597EC858 2D3B2AE69A50D2C9 2DBC2FD2358E1EA1 2E340DBAFFF22E20 2E8AA91866041185 2EA6201A068C5FA0
+2F27C5970E47C4FF 2F2BB917A7B0317E 2F77A250B04E7C39 2FB5E13419FC8924 304E498AF6A9C2D1 31017A722665E4AF
+313AFA5189C150B7 3167CF76B6E83817 3199EA056253916C 320BCA71FC381A4A 327156AB287C6AA5 32B14E649DDEB198
+32CA9FC1A0F5B633 345120426285FF8B 34A345E9544ECABF 34EB4C4EF005207E 3559EFC37C61A31A 35675E68F4B5AF7B
+35E52AD282F5122D 35ED5406781EBFDF 360E46F15F432AF8 3674951EC264A721 3692BFA45759A67D 36A7AC9BD13EDC65
+36E618512A68721F 37AC5E111A9B2F77 37D2EF282DFCC97E 381664F19845E3D5 38464BF083D958B5 38828E996B767B36
+38D0F91A99C57D18 3978D009748EF54A 39DFA55283318D31 39F6F95327B31D79 3A308231D963D64A 3A960464D36C1B8B
+3ACD0BE86DE7DCCC 3B19ECD69B492A40 3B92BDD28588B7F4 3B9DE09F2FF76AFE 3BC6F2208B905427 3CACFD9C7FB9CB4C
+3D0F3B9DDCACEC30 3D4F2BF07DC1BE38 3D615B560BA9A2D1 3D7B4F23B8F85391 3D9209C4598BFBC3 3DA541559918A808
+3DCAD53B7BCDDD2D 3DD239573C69034E 3E2573A75821576A 3FCFC1F7F34E78A9 40123E9C6273385E 402F589227669E58
+4068F0880B399410 40D19D8DAB1B8412 410013F679F8A5F0 41250C14DB7A7F8A 4162CED6406E0FE7 4170AC2A2782A151
+41880EE3438C8787 420FCC63481AC21F 425AF12A0743502B 42CFE854913594FE 42D1F9243114643C 42F25B39E1B00C11
+435B41068E866551 44060752D7F7AE06 44213F9F4D59B557 444528FC68F99EA0 446494B1FD32A6B2 449938CD38C82BCD
+4502229742DDA534 4519807F709053C6 4565014CDC6B876C 4580BA99B3B956AE 461476587780AA9F 466BC8CEF3E71DE7
+468DA084E9953050 4693D851FCB96CE9 46AC8338E68F5DB8 46E3D772A1888EAD 473C2D0D0950352C 474BA67BDB289C62
+475A74E3C0C82094 47C1DC4559EAE95C 48058E0C99BF7D68 488E399CA964E714 48EFC4851E15940A 49F2B18D5D38E047
+4B4B04529D87B5C3 4B5D10C71B8F2EDC 4B8373D016F27752 4BBF2DDC38798E41 4BE30D9814C6D4E9 4BFE029D971DDB35
+4C9A82CE72CA2519 4CC19AAFF82F60AC 4D0FB475B2422280 4D27EAE655E7272B 4D9012B4A77A9524 4E199B4A1C40B497
+4E3E01B9AF84F54D 4E49D854C9BFFB0A 4E861409DBAD2B3A 4EA842C8C6304F4A 4F26AEAFDB236762 4F8EF089B64B5690
+501AB5444EAE9AD3 505E836BB07E69BA 5116E40694AC48F6 516FA3FD6BF97A4B 519BC3F0FDA96312 51C476F0BCAF6BBB
+5254792D5579984F 528EC39C38EBECCD 5300F44183EEE909 53649F6E45138EF1 536C0B339345616C 53A5687CB26DC41F
+53E11EB7B24CC39E 54669547A225FF20 5479F2FA49524ADA 5491C11F9EE6FF22 54B1CDF540B66C50 5514AE81CF9B1AF3
+55B5A0F748D3A82D 5634CD3297757D15 565EE90FA9602C0C 568B156009CA4316 57449F915FCB5FB1 57B2AD99044D3371
+5801C8B4F3BD25B0 583ADC8AEBB04A62 59033478180D0708 596727C8A0EA4DB3 59C826FC854197CB 5A00BFD4CBA30F60
+5A46B8253D07320A 5A4F26B21EBC770C 5B7C4FB03313B31F 5BAA61E4C9B93F3F 5BC1824930FFBBAF 5BF82649C8F54017
+5BFD08BDAC5988B8 5C17FA03E6D5FC24 5C6ACA6504E010FC 5C6D9EDC3A951CDA 5C8A7A129DE8B649 5C9688A59F3FCBFD
+5C995BBB81B028B8 5CEC175B165E3D5E 5D70C3D101EFD9CC 5D74AE093A16A00E 5EDF257AB0926E16 5F079981221CE504
+5F13610453FD0DAB 5F50443BFE76F727 5F50A84C1FA3BCFF 5FA339BBBB1EEACE 5FEE00239940F883 600982CF9C0C41E1
+601F1889667EFAEB 60348814B4904875 6092A032351D76D6 60C6D277A8BD81DE 60EB7E5F19F749BF 612D9EC34BDDCE12
+615193F904A227A9 618DCDFB0CD9AE44 624C22A8C8F8C93F 625600233CB3BCAB 62A56A64C1489FBE 62B487BC84825B3D
+6320B01C0A04AF09 6367C48DD193D56E 63A5FD3BC5F45A04 640FB06193D8F217 6420ED4D831B436D 64356BCFAE350C97
+643FEC50E79C69BC 6467BAA3B187373E 64875FCCCAAC069F 655F83BE7512E5B5 66DA9F3B8D9D83F3 675DC611BAFB0B73
+67B5FA48F92CE852 67C1A7FEB14FE354 67D9674C8455F6C2 68C46A606457643E 68EC1917C84EBE56 6934105AD50010B8
+69DF79BEF9287D3B 6B060C4678D37986 6B43E6C822EC4265 6C616F7C2D2FDE90 6CF34755B9DE3322 6D0EBBBDCE32474D
+6DEFCDCE4D06B851 6E0012C588F99763 6E1A438CFE5A6C9E 6E2F9E6111E77EDD 6EA164759ADCCDF0 701B389B848A2B1C
+7073D0FAB1EA36CD 70C881D4A26984DD 70CCD9007338D6D8 70FFC281DBEC8DAC 7110EDA4D09E062A 711C73F64AFDCE07
+7212A9E01329EA93 7288EDD0FC3FFCBE 7334CE7FF7D6FA1C 74A871ACBF060DDA 7505D64A54E061B7 75105193BFDD0DB6
+75328EF481B4A7A0 7539B2514C215395 759730A97E4373F3 75A0A1C981FEA69A 760E7DAB2836853C 76C2436B593F27AA
+775BB961B81DA1CA 77BCE9FB18F977EA 782F9B10621E362D 7965A665163253A1 799467800736CC25 79B333C96EC99512
+7AA129F67FDE68C6 7AB515D12BD2CF43 7AFAA0A74C41394C 7B21848AC9AF35BE 7C222FB2927D828A 7C4A8D09CA3762AF
+7C6A61C68EF8B9B6 7CC918F959308C71 7CE0359F12857F2A 7CE8277C35AC7D51 7D4EEBAB7CE33F2C 7D8F4B4B4613DC7E
+7E41C6480852A4A9 7EA35D812706D921 7ECFD8F97B4729C6 7F2BE99D71F38FEE 814FF90C56A74B5E 81941ADD3E463581
+819D7C152E96A452 83F2DD788822A380 8473D7D363BAA4CE 8488307681665F3D 85136C79CBF9FE36 858952923C2BBB9C
+8594E5DC6E05443F 85D8D76BA15BDE3E 85F45E1685B99E03 85F940C72D551AB7 878B34C71A5AAE40 884950A05FE822DD
+889C6853A117ACA8 88C4F286BFA68445 88EA39439E74FA27 88FA846E5F8AA198 88FDD585121A4CCB 891A4AC3F0101A20
+895B317C76B8E504 8A2DA05455775E89 8A6B3C5E6BA4DA6E 8BC5DE83CF1DAF79 8BE3C943B1609FFF 8BE9377EB23A3A1F
+8C258085654083B8 8CB2237D0679CA88 8D6E34F987851AA5 8F2174C83B060AD8 9009337CF16333F0 91E09D0708EC4EF6
+92119E2C63E9366A 92429D82A41E9304 92F2FD99879B0C24 93A4B670ECF7057A 93EC71B22793A815 947C844D900B26A5
+95C946BF622EF93B 9653AF05F246108D 96773332455A5770 96D53734FC1BD54D 96DE5543D183D7DE 976272B40FB37F81
+97BBC79679FE1CFD 982AA9D151715B54 984FF6EE7C78078D 988506D376BA789D 99996B911567C83C 99EA0D69A63871AE
+99EFC50A9206BDE3 9A217D4AC743134C 9AC20922B054316B 9ADC7A1161DDF32F 9B8C02FED3901E82 9BC34549D565D950
+9C19E3B3DC5D215E 9C421D03FE856282 9C5C72058DB17D14 9C881BDB6BC930D1 9CE5770B3BB4B2A1 9CF617634874AD4B
+9CF95DACD226DCF4 9CF984E10328F209 9D4E1E23BD5B7270 9D61BA84065FC839 9DC7226A87062ACB 9EC4236A09D01395
+9F2FEB0F1EF425B2 9FD8DE5FC2A7C2C0 A01D63C36DA6132F A0847543CDE93421 A08670FF00AB376D A0C849D62D67126B
+A17FED27EAA84228 A1F0280EDDD46E46 A247ED270CC8ACB8 A248BF1D171D9F7E A2B7429C2D548050 A2C901C8C6DEA989
+A346F3083515CBC8 A36E1F2D2C1309E9 A4097E080C550462 A47B5CC8F06168F0 A4AC914C09D7C097 A4CAC82164EF67D9
+A51DDA7C7FF50B61 A642A77ABD7D4F51 A684248598A590E3 A6F375A196CD4C89 A77591BE2044AFCD A7D579BA76398070
+A807D08E4C29A353 A8A345BE5C4EC954 A93CF93DB3AE6D49 A94A8FE5CCB19BA6 AA743A0AAEC8F7D7 AAF4C61DDCC5E8A2
+AAFDC23870ECBCD3 AB30766B923D5908 AB4D8D2A5F480A13 AB5E2BCA84933118 AB65D8B9611FB58F AB874467A7D1FF5F
+AB87D24BDC7452E5 ABAE854DCEB7A01A ABCCF54B832D2561 AC137C6AE0947718 AC9A2CD0A01D65C2 ACE893FB2C9553A3
+AD61EE8F19F3D7D6 AD70AB97AE1376E6 ADBA36F9108B3982 AEBC3EBEE2F0C8B0 AF2C41EB4E034ED0 AF8978B1797B72AC
+AFAED75406BD4148 B0399D2029F64D44 B03B74363BBB6EE4 B0F44571644F9EA3 B1285D4B43914CC9 B14AB480028768CB
+B1B3773A05C0ED01 B1F45ED147D6803A B24ED7DB06817C48 B2A491E28DDF8A34 B2EE60370AD57D9B B2FFDBEB87E8E633
+B363C6EF45640A79 B3932535E8072DA5 B3ACA92C793EE0E9 B3F594E10A9EDCF5 B40981AAB75932C5 B517739E259B7323
+B573F24E55D6B754 B77EB819278979B8 B7A875FC1EA228B9 B7C40B9C66BC88D3 B80A9AED8AF17118 B980903D8033945F
+B986415C93241513 BA5D8027D4FBAF0E BADCFA3C62742B3B BB3ACF149DB4936F BC74F4F071A5A33F BCD5917B85289CF8
+BCEE59CECBC4A9A2 BCEF7A0462580829 BCF22DFC6FB76B73 BD3404F882780FB6 BD5BDA15418D7E57 BD5E5EB049F39071
+BEE38FBC71DC4377 BF1EDB9A0628BD52 BF2F749E80C970F5 BF5AFC18DFBCA6FF BFCDF3E6CA6CEF45 BFE54CAA6D483CC3
+BFFF2DD4F1B310EB C0049442A7CA6D3B C0B137FE2D792459 C129B324AEE662B0 C16AAB9FE3288DF0 C2011091E592A41D
+C22D4A0C96122151 C23DF43FA2D4AEF6 C2577430D9171649 C31405B16FBB48AD C33873C987BC9D5B C33F059B0CA7725F
+C35B07262FCA5764 C3F63EE769C8F251 C448AAA999398E9C C4CECA4FD2C0A6E4 C53255317BB11707 C539153BA1F947BD
+C590AFA9BB59191F C60266A8ADAD2F8E C6922B6BA9E09395 C692D6A10598E0A8 C824FE0AFE16857D C8A50F632C3C4BAF
+C8D99C2F7CD5F432 C95259DE1FD71981 C984AED014AEC762 CA581782DD06E719 CA70918E5246BC91 CA9290D12CE41B90
+CAD1524360E58851 CAE355B615B61313 CB047D26CECB70DE CB45C671CBC50062 CB654AC8F36F8400 CBB7353E6D953EF3
+CBDB0CC7F3F5B4BE CBF2510A5F9F7EEC CBF41F5B461CEA4E CBFDAC6008F9CAB4 CC4723995CE81991 CC9F816A42431CF8
+CCDEB3789AA4A843 CD1B33E25BDFF155 CDF547ED4C64E699 CDF6D9EFE408D129 CE560BB434FE8158 CEA6755B26710FB5
+CEDF41FCCB586DC3 CEF7E59218E3A7E1 CFE74FFCE19725B6 D033E22AE348AEB5 D04C1675B232C6EC D0A65436A81128B4
+D0BE2DC421BE4FCD D232C6C498283DA7 D29BF1C58FD7E4B2 D30D77BC8442DB84 D318F44739DCED66 D4F55DEC8C7BC967
+D50F3D3D52530399 D53652DE63B26F2B D54B76B2BAD9D994 D5BD422EFE6A0881 D6791DDBA07DF473 D6955D9721560531
+D6CFE5E76C8347BC D6F8CDD522E4013E D714D8456935FA20 D7966074B3D619B4 D79AC4A2B1AC0251 D7EB2AA54EC8D254
+D81B69B3443BE652 D851607621E80FD1 D869DB7FE62FB07C D8CD10B920DCBDB5 D915F4E970E53654 D969E7E0B0571370
+D99A16EBF6A70D2F D9D71AB718931A89 DABA78D3C4AD9A00 DB25F2FC14CD2D2B DB55252FA72EF9C5 DB9D94A2F9D45102
+DC724AF18FBDD4E5 DC76E9F0C0006E8F DD08B58E1D30DAD4 DD2EDB87EA9EB7A3 DD5FEF9C1C1DA139 DDF45997A7E18A25
+DE3460832EA070EF DE4AB6E26DB462B9 DEA742E166979027 DEFF1D836528DB4F DF0B6C410FC70CEE DF70F9B975B42116
+E07F8C4AB6822127 E0C95748A455C27A E0F34FFA3C10D294 E10E84BE7F575EFA E10F8315A56FF5A3 E18BA7E526C93A83
+E2F3E36EA43BA45A E30A83CC3A6473FB E35BECE6C5E6E0E8 E38AD214943DAAD1 E3CD9F6469FC3E1A E3D9D95962C452F3
+E411A490148911BB E47223A8F61EA86F E53D92CAA56E00A9 E5E9FA1BA31ECD1A E6852777C0260493 E68E11BE8B70E435
+E69867CA7D5A7B0A E6CC0FB2B8DAD411 E703908953979ABA E79EFC4520FBD4B2 E7EA4F94CB4AF75C E80721793C24AE14
+E8126C64C3486E84 EAB0F0D675765E4F EAB3D2BAB6DED567 EB068C74E80689F5 EB3B0C150D06E5AA EBE53C61982711F1
+EC30ADC79E734900 EC461B5480380ECF EC5A7C3E21436A8E EC7117851C0E5DBA ECB7B4F4EA2FE692 ECE4E6B27CF0A2C5
+ED4B010FF1358E96 ED9D3D832AF89903 EE848A3B5B3FB004 EE87E62281EE4CEE EE8D8728F435FD55 EEFC1767FEC313F6
+EF0EBBB77298E1FB EF7830DB5BFBF353 EF89A3A842B03845 EF971EE38BBA25D9 EFB29D093BDDEA2C EFC6B7D61533CFDD
+EFCE8CD161897FEE EFEBDFC78EA1935C F001F96576472A76 F0744D60DD500C92 F0D61723FDF73013 F0F732BCA615FFEF
+F0F8E902CA7A41C6 F1196A8A993E28D0 F11EA65808234995 F15E518A239A5DDB F18F9D8BAA2FA0CB F1EB08C4E3F8A5AB
+F2847B1BD9624F92 F2B14F68EB995FAC F32157A45887E4FE F32BCA49B3796C2F F34150D457370338 F4542DB9BA30F795
+F49F577D627D39B7 F4A69973E7B0BF9D F4C16FCFFE10DC77 F4CC6E82140048EA F4EE7415066B23ED F58CF5E7E10F195E
+F5DA25704AF3EBD5 F67A1883F3921718 F732DFDBD0AED627 F7A9E24777EC2321 F7C3BC1D808E0473 F80D0CA101E967B5
+F8248E12727710C9 F865B53623B121FD F872CAAD177D67BB F9A3BF509DF08651 FA2CA509FA3E8098 FA376E383626491F
+FA6977C99B809DB6 FA9BEB99E4029AD5 FAC4DF3AC163AC84 FAC673092FBDCAB2 FB27193AB6E0BB48 FBA9F1C9AE2A8AFE
+FBB26A620528A062 FC2789A2F2F3303F FC84AAA687374AED FD2B0A636ED0C80C FDB87DFD199045AF FDDA0C46F953C1A4
+FE09BC2EF2737A32 FE10566E2ADEECE8 FEA7F657F56A2A44 FF9E43337E6AF8AB FFAAAFBDEE1DE041
+`;
@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import type { UserRateLimits, IpRateLimits } from './limiter.js';
+import { DEFAULT_PASSWORD_HASH, type PasswordHashOptions } from './password.js';
+import type { PasswordPolicy } from './password-policy.js';
+
+// Token, password and rate limit policy in one place. UserDO reads it from its
+// `config` field and the worker from its `config` option; pass the same object to
+// both so request validation and the Durable Object agree.
+
+export interface UserDOConfig {
+  /** Lifetimes in seconds */
+  tokens: {
+    accessTokenTtl: number;
+    refreshTokenTtl: number;
+    /** How long a spent refresh token still yields its successor */
+    refreshReuseGrace: number;
+    mfaChallengeTtl: number;
+    emailVerificationTtl: number;
+    passwordResetTtl: number;
+    loginCodeTtl: number;
+    loginCodeMaxAttempts: number;
+    emailLinkTtl: number;
+    emailChangeTtl: number;
+    /** Access tokens issued to support staff viewing the account; they can't be refreshed */
+    impersonationTtl: number;
+    /** `iss` claim (default: the JWT_ISSUER var) */
+    issuer?: string;
+    /** Default `aud` claim (default: the JWT_AUDIENCE var) */
+    audience?: string;
+  };
+  password: PasswordPolicy & {
+    hashing: PasswordHashOptions;
+  };
+  rateLimits: {
+    user: UserRateLimits;
+    ip: IpRateLimits;
+  };
+}
+
+export type UserDOConfigOverrides = {
+  tokens?: Partial<UserDOConfig['tokens']>;
+  password?: Partial<UserDOConfig['password']>;
+  rateLimits?: {
+    user?: Partial<UserRateLimits>;
+    ip?: Partial<IpRateLimits>;
+  };
+};
+
+export const DEFAULT_USER_RATE_LIMITS: UserRateLimits = {
+  failedLogin: { freeAttempts: 5, baseDelaySeconds: 30, maxDelaySeconds: 15 * 60 },
+  accountFailedLogin: { freeAttempts: 20, baseDelaySeconds: 60, maxDelaySeconds: 15 * 60 },
+  signup: { limit: 5, windowSeconds: 60 },
+  passwordReset: { limit: 5, windowSeconds: 15 * 60 },
+  loginCode: { limit: 5, windowSeconds: 15 * 60 },
+  verification: { limit: 5, windowSeconds: 15 * 60 },
+  email: { limit: 5, windowSeconds: 15 * 60 },
+  default: { limit: 30, windowSeconds: 60 },
+};
+
+export const DEFAULT_IP_RATE_LIMITS: IpRateLimits = {
+  login: { limit: 30, windowSeconds: 60 },
+  signup: { limit: 20, windowSeconds: 60 * 60 },
+  email: { limit: 10, windowSeconds: 15 * 60 },
+};
+
+export const DEFAULT_USER_DO_CONFIG: UserDOConfig = {
+  tokens: {
+    accessTokenTtl: 15 * 60, // 15 minutes
+    refreshTokenTtl: 7 * 24 * 60 * 60, // 7 days
+    refreshReuseGrace: 30,
+    mfaChallengeTtl: 5 * 60,
+    emailVerificationTtl: 24 * 60 * 60,
+    passwordResetTtl: 60 * 60,
+    loginCodeTtl: 10 * 60,
+    loginCodeMaxAttempts: 5,
+    emailLinkTtl: 24 * 60 * 60,
+    emailChangeTtl: 24 * 60 * 60,
+    impersonationTtl: 10 * 60,
+  },
+  password: {
+    minLength: 8,
+    // Hashing cost grows with length, so very long inputs are refused
+    maxLength: 256,
+    requiredCharacterClasses: 0,
+    disallowEmail: true,
+    minStrength: 2,
+    rejectCommon: true,
+    hashing: DEFAULT_PASSWORD_HASH,
+  },
+  rateLimits: {
+    user: DEFAULT_USER_RATE_LIMITS,
+    ip: DEFAULT_IP_RATE_LIMITS,
+  },
+};
+
+const seconds = z.number().int().positive();
+const windowRule = z.object({ limit: z.number().int().positive(), windowSeconds: seconds });
+const backoffRule = z.object({
+  freeAttempts: z.number().int().nonnegative(),
+  baseDelaySeconds: seconds,
+  maxDelaySeconds: seconds,
+});
+
+const ConfigSchema = z.object({
+  tokens: z.object({
+    accessTokenTtl: seconds,
+    refreshTokenTtl: seconds,
+    refreshReuseGrace: z.number().int().nonnegative(),
+    mfaChallengeTtl: seconds,
+    emailVerificationTtl: seconds,
+    passwordResetTtl: seconds,
+    loginCodeTtl: seconds,
+    loginCodeMaxAttempts: z.number().int().positive(),
+    emailLinkTtl: seconds,
+    emailChangeTtl: seconds,
+    impersonationTtl: seconds,
+    issuer: z.string().min(1).optional(),
+    audience: z.string().min(1).optional(),
+  }).refine(t => t.accessTokenTtl <= t.refreshTokenTtl, 'accessTokenTtl must not exceed refreshTokenTtl'),
+  password: z.object({
+    minLength: z.number().int().min(1),
+    maxLength: z.number().int().positive(),
+    requiredCharacterClasses: z.number().int().min(0).max(4),
+    disallowEmail: z.boolean(),
+    minStrength: z.number().int().min(0).max(4),
+    rejectCommon: z.boolean(),
+    hashing: z.object({ algorithm: z.string(), params: z.record(z.number()) }).passthrough(),
+  }).refine(p => p.minLength <= p.maxLength, 'minLength must not exceed maxLength'),
+  rateLimits: z.object({
+    user: z.object({
+      failedLogin: backoffRule,
+      accountFailedLogin: backoffRule,
+      signup: windowRule,
+      passwordReset: windowRule,
+      loginCode: windowRule,
+      verification: windowRule,
+      email: windowRule,
+      default: windowRule,
+    }),
+    ip: z.object({ login: windowRule, signup: windowRule, email: windowRule }),
+  }),
+});
+
+/**
+ * Merge overrides into the defaults and validate the result
+ * @param overrides - Settings to change; everything else keeps its default
+ * @returns Complete configuration
+ * @throws If a value is out of range, e.g. a zero lifetime or minLength above maxLength
+ */
+export function defineUserDOConfig(overrides: UserDOConfigOverrides = {}): UserDOConfig {
+  const defaults = DEFAULT_USER_DO_CONFIG;
+  const config: UserDOConfig = {
+    tokens: { ...defaults.tokens, ...overrides.tokens },
+    password: { ...defaults.password, ...overrides.password },
+    rateLimits: {
+      user: { ...defaults.rateLimits.user, ...overrides.rateLimits?.user },
+      ip: { ...defaults.rateLimits.ip, ...overrides.rateLimits?.ip },
+    },
+  };
+
+  const parsed = ConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new Error('Invalid UserDO config: ' + JSON.stringify(parsed.error.flatten()));
+  }
+  return config;
+}
@@ -7,9 +7,20 @@ export interface TableOptions {
   indexes?: string[];
 }
 
+// A row exactly as stored, used to move data between Durable Objects
+export type StoredRow = {
+  id: string;
+  data: string;
+  created_at: number;
+  updated_at: number;
+  user_id: string | null;
+  organization_id: string | null;
+};
+
 export class UserDODatabase {
   private tables = new Map<string, GenericTable<any>>();
   private schemas = new Map<string, z.ZodSchema>();
+  private options = new Map<string, TableOptions>();
   private organizationContext?: string;
 
   constructor(
@@ -39,6 +50,7 @@ export class UserDODatabase {
       );
       this.tables.set(name, table);
       this.schemas.set(name, schema);
+      this.options.set(name, options);
     }
     return this.tables.get(name)! as GenericTable<z.infer<T>>;
   }
@@ -47,6 +59,69 @@ export class UserDODatabase {
     return this.storage.sql;
   }
 
+  // Recreate every table this instance has opened, e.g. after storage.deleteAll()
+  restoreTables(): void {
+    for (const [name, options] of this.options) this.ensureTableExists(name, options);
+  }
+
+  // Tables opened through table(), in the order they were first used
+  get tableNames(): string[] {
+    return [...this.options.keys()];
+  }
+
+  // Every row of a table in insertion order, read a page at a time
+  *allRows(name: string, pageSize = 500): Generator<StoredRow> {
+    let after = 0;
+    while (true) {
+      const page = this.storage.sql.exec(
+        `SELECT rowid AS _rowid, * FROM "${name}" WHERE rowid > ? ORDER BY rowid LIMIT ?`, after, pageSize
+      ).toArray();
+      for (const { _rowid, ...row } of page) yield row as StoredRow;
+      if (page.length < pageSize) return;
+      after = page[page.length - 1]._rowid as number;
+    }
+  }
+
+  // Raw rows matching a SQL condition (with ? placeholders)
+  exportRows(name: string, where: string, ...params: SqlStorageValue[]): StoredRow[] {
+    return this.storage.sql.exec(`SELECT * FROM "${name}" WHERE ${where}`, ...params).toArray() as StoredRow[];
+  }
+
+  // Every table in storage, including ones this instance hasn't opened
+  storedTableNames(): string[] {
+    return this.storage.sql.exec(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'`
+    ).toArray().map(({ name }) => name as string);
+  }
+
+  // Every organization-scoped row for one organization, by table
+  organizationRows(organizationId: string): Record<string, StoredRow[]> {
+    const rows: Record<string, StoredRow[]> = {};
+    for (const name of this.storedTableNames()) {
+      try {
+        const tableRows = this.exportRows(name, 'organization_id = ?', organizationId);
+        if (tableRows.length > 0) rows[name] = tableRows;
+      } catch {
+        // Not a UserDO table (no organization_id column)
+      }
+    }
+    return rows;
+  }
+
+  // Store rows exported from another Durable Object, re-owned by the current user.
+  // Rows keep their ids, so references to them stay valid.
+  importRows(rows: Record<string, StoredRow[]>): void {
+    for (const [name, tableRows] of Object.entries(rows)) {
+      this.ensureTableExists(name, this.options.get(name) || {});
+      for (const row of tableRows) {
+        this.storage.sql.exec(
+          `INSERT OR REPLACE INTO "${name}" (id, data, created_at, updated_at, user_id, organization_id) VALUES (?, ?, ?, ?, ?, ?)`,
+          row.id, row.data, row.created_at, row.updated_at, this.currentUserId, row.organization_id
+        );
+      }
+    }
+  }
+
   private ensureTableExists(name: string, options: TableOptions): void {
     const createSQL = `CREATE TABLE IF NOT EXISTS "${name}" (
       id TEXT PRIMARY KEY,
@@ -0,0 +1,179 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { AccountStatus } from './UserDO.js';
+
+// Every account lives in its own UserDO, so there is no way to list them. UserDO
+// reports each account to a single UserDirectoryDO (idFromName('global')) when it is
+// created, changed or deleted, and the admin routes search that. One SQLite-backed
+// object holds millions of rows, so the directory isn't sharded; entries are small
+// and only written when an account changes or signs in.
+
+export type DirectoryEntry = {
+  email: string;
+  userId: string;
+  handle?: string;
+  createdAt: string;
+  emailVerified: boolean;
+  roles: string[];
+  status: AccountStatus;
+  lastLoginAt?: string;
+  updatedAt: string;
+};
+
+export type DirectorySearch = {
+  /** Part of the email or handle, in any letter case */
+  query?: string;
+  /** Only accounts that have this role */
+  role?: string;
+  status?: AccountStatus;
+  /** nextCursor from the previous page */
+  cursor?: string;
+  /** Page size (default 50, at most 200) */
+  limit?: number;
+};
+
+export type DirectoryPage = {
+  users: DirectoryEntry[];
+  /** Accounts matching the search, across all pages */
+  total: number;
+  nextCursor: string | null;
+};
+
+export const DIRECTORY_NAME = 'global';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type DirectoryRow = {
+  email: string;
+  user_id: string;
+  handle: string | null;
+  created_at: string;
+  email_verified: number;
+  roles: string;
+  status: string;
+  last_login_at: string | null;
+  updated_at: string;
+};
+
+function toEntry(row: DirectoryRow): DirectoryEntry {
+  return {
+    email: row.email,
+    userId: row.user_id,
+    ...(row.handle ? { handle: row.handle } : {}),
+    createdAt: row.created_at,
+    emailVerified: !!row.email_verified,
+    roles: JSON.parse(row.roles),
+    status: row.status as AccountStatus,
+    ...(row.last_login_at ? { lastLoginAt: row.last_login_at } : {}),
+    updatedAt: row.updated_at,
+  };
+}
+
+// LIKE treats % and _ as wildcards; handles often contain underscores
+function likePattern(query: string): string {
+  return `%${query.toLowerCase().replace(/[\\%_]/g, c => `\\${c}`)}%`;
+}
+
+/**
+ * The directory object for a namespace
+ * @param namespace - UserDirectoryDO binding
+ * @returns Stub of the single directory instance
+ */
+export function getUserDirectory(namespace: DurableObjectNamespace<UserDirectoryDO>): UserDirectoryDO {
+  return namespace.get(namespace.idFromName(DIRECTORY_NAME)) as unknown as UserDirectoryDO;
+}
+
+/**
+ * Searchable list of all accounts, keyed by email. Written by UserDO, read by the
+ * admin routes.
+ */
+export class UserDirectoryDO extends DurableObject {
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS users (
+      email TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      handle TEXT,
+      created_at TEXT NOT NULL,
+      email_verified INTEGER NOT NULL,
+      roles TEXT NOT NULL,
+      status TEXT NOT NULL,
+      last_login_at TEXT,
+      updated_at TEXT NOT NULL
+    )`);
+  }
+
+  /** Add or replace an account's entry; a missing lastLoginAt keeps the stored one */
+  async upsert(entry: DirectoryEntry): Promise<{ ok: boolean }> {
+    this.write(entry);
+    return { ok: true };
+  }
+
+  private write(entry: DirectoryEntry): void {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO users (email, user_id, handle, created_at, email_verified, roles, status, last_login_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (email) DO UPDATE SET
+         user_id = excluded.user_id, handle = excluded.handle, created_at = excluded.created_at,
+         email_verified = excluded.email_verified, roles = excluded.roles, status = excluded.status,
+         last_login_at = COALESCE(excluded.last_login_at, users.last_login_at), updated_at = excluded.updated_at`,
+      entry.email.toLowerCase(), entry.userId, entry.handle ?? null, entry.createdAt,
+      entry.emailVerified ? 1 : 0, JSON.stringify(entry.roles), entry.status,
+      entry.lastLoginAt ?? null, entry.updatedAt
+    );
+  }
+
+  async remove({ email }: { email: string }): Promise<{ ok: boolean }> {
+    this.ctx.storage.sql.exec(`DELETE FROM users WHERE email = ?`, email.toLowerCase());
+    return { ok: true };
+  }
+
+  /** Re-key an account after an email change */
+  async rename({ from, entry }: { from: string; entry: DirectoryEntry }): Promise<{ ok: boolean }> {
+    const previous = this.ctx.storage.sql.exec<DirectoryRow>(`SELECT * FROM users WHERE email = ?`, from.toLowerCase()).toArray()[0];
+    this.ctx.storage.transactionSync(() => {
+      this.ctx.storage.sql.exec(`DELETE FROM users WHERE email = ?`, from.toLowerCase());
+      this.write({ lastLoginAt: previous?.last_login_at ?? undefined, ...entry });
+    });
+    return { ok: true };
+  }
+
+  async get({ email }: { email: string }): Promise<DirectoryEntry | null> {
+    const row = this.ctx.storage.sql.exec<DirectoryRow>(`SELECT * FROM users WHERE email = ?`, email.toLowerCase()).toArray()[0];
+    return row ? toEntry(row) : null;
+  }
+
+  /** Accounts in email order, one page at a time */
+  async search({ query, role, status, cursor, limit = DEFAULT_PAGE_SIZE }: DirectorySearch = {}): Promise<DirectoryPage> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query) {
+      conditions.push(`(email LIKE ? ESCAPE '\\' OR lower(handle) LIKE ? ESCAPE '\\')`);
+      params.push(likePattern(query), likePattern(query));
+    }
+    if (role) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(roles) WHERE value = ?)`);
+      params.push(role);
+    }
+    if (status) {
+      conditions.push(`status = ?`);
+      params.push(status);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const total = this.ctx.storage.sql.exec<{ total: number }>(`SELECT COUNT(*) AS total FROM users ${where}`, ...params).one().total;
+
+    const pageSize = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+    const after = cursor ? `${where ? `${where} AND` : 'WHERE'} email > ?` : where;
+    // One extra row tells whether another page follows
+    const rows = this.ctx.storage.sql.exec<DirectoryRow>(
+      `SELECT * FROM users ${after} ORDER BY email LIMIT ?`,
+      ...params, ...(cursor ? [cursor] : []), pageSize + 1
+    ).toArray();
+    const page = rows.slice(0, pageSize);
+    return {
+      users: page.map(toEntry),
+      total,
+      nextCursor: rows.length > pageSize ? page[page.length - 1].email : null,
+    };
+  }
+}
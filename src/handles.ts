@@ -0,0 +1,158 @@
+import { DurableObject } from 'cloudflare:workers';
+
+// Optional unique handles ("@jane") for accounts. Accounts live in the Durable Object
+// named after their email, so a single HandleRegistryDO (idFromName('global')) maps
+// each handle to the email that owns it. The registry is the source of truth: a
+// Durable Object handles one request at a time, so claims can't race each other.
+
+export type HandleRecord = {
+  /** As the user typed it (after Unicode normalization); lookups ignore case */
+  handle: string;
+  email: string;
+  claimedAt: string;
+};
+
+export const HANDLE_MIN_LENGTH = 3;
+export const HANDLE_MAX_LENGTH = 30;
+
+// Names that would read as the service itself or clash with common routes
+export const RESERVED_HANDLES = [
+  'about', 'account', 'admin', 'administrator', 'anonymous', 'api', 'app', 'auth',
+  'billing', 'contact', 'dashboard', 'help', 'info', 'login', 'logout', 'me', 'mod',
+  'moderator', 'null', 'official', 'owner', 'root', 'security', 'settings', 'signin',
+  'signup', 'staff', 'support', 'system', 'undefined', 'user', 'userdo', 'www',
+];
+
+const HANDLE_PATTERN = /^[a-z][a-z0-9_]*$/i;
+
+// Instance name of the one registry object
+export const HANDLE_REGISTRY_NAME = 'global';
+
+/**
+ * Display form of a handle: Unicode-normalized so look-alike forms (e.g. fullwidth
+ * letters) collapse to plain ASCII, with a leading "@" dropped
+ * @param handle - Handle as entered
+ * @returns Handle to store and show
+ */
+export function normalizeHandle(handle: string): string {
+  return handle.normalize('NFKC').trim().replace(/^@/, '');
+}
+
+/**
+ * Key a handle is registered under; "Jane_Doe" and "jane_doe" are the same handle
+ * @param handle - Handle as entered
+ * @returns Case-folded handle
+ */
+export function foldHandle(handle: string): string {
+  return normalizeHandle(handle).toLowerCase();
+}
+
+/**
+ * Check a handle against the naming rules
+ * @param handle - Handle as entered
+ * @returns Why the handle can't be used, or null if it can
+ */
+export function handleProblem(handle: string): string | null {
+  const display = normalizeHandle(handle);
+  if (display.length < HANDLE_MIN_LENGTH || display.length > HANDLE_MAX_LENGTH) {
+    return `Handle must be ${HANDLE_MIN_LENGTH} to ${HANDLE_MAX_LENGTH} characters`;
+  }
+  if (!HANDLE_PATTERN.test(display)) {
+    return 'Handle must start with a letter and contain only letters, digits and underscores';
+  }
+  if (RESERVED_HANDLES.includes(display.toLowerCase())) return 'Handle is reserved';
+  return null;
+}
+
+/**
+ * Whether a login identifier names a handle rather than an email: anything with
+ * an "@" after the optional leading one is an email
+ * @param identifier - Email or handle
+ * @returns true if the identifier should be looked up as a handle
+ */
+export function isHandleIdentifier(identifier: string): boolean {
+  return !normalizeHandle(identifier).includes('@');
+}
+
+/**
+ * The registry object for a namespace
+ * @param namespace - HandleRegistryDO binding
+ * @returns Stub of the single registry instance
+ */
+export function getHandleRegistry(namespace: DurableObjectNamespace<HandleRegistryDO>): HandleRegistryDO {
+  return namespace.get(namespace.idFromName(HANDLE_REGISTRY_NAME)) as unknown as HandleRegistryDO;
+}
+
+/**
+ * Handle -> email map, plus the reverse so each account holds at most one handle.
+ * Called by UserDO; the worker only reads from it.
+ */
+export class HandleRegistryDO extends DurableObject {
+  private handleKey(handle: string) {
+    return `handle:${foldHandle(handle)}`;
+  }
+
+  private emailKey(email: string) {
+    return `email:${email.toLowerCase()}`;
+  }
+
+  /**
+   * Give a handle to an account, releasing the account's previous one (a rename)
+   * @returns The stored record
+   * @throws If the handle breaks the naming rules or belongs to another account
+   */
+  async claim({ handle, email }: { handle: string; email: string }): Promise<HandleRecord> {
+    const problem = handleProblem(handle);
+    if (problem) throw new Error(problem);
+    email = email.toLowerCase();
+
+    const key = this.handleKey(handle);
+    const existing = await this.ctx.storage.get<HandleRecord>(key);
+    if (existing && existing.email !== email) throw new Error('Handle already taken');
+
+    const previous = await this.ctx.storage.get<string>(this.emailKey(email));
+    const record: HandleRecord = { handle: normalizeHandle(handle), email, claimedAt: existing?.claimedAt || new Date().toISOString() };
+    // One transaction: the old handle is freed exactly when the new one is taken
+    await this.ctx.storage.transaction(async (txn) => {
+      if (previous && previous !== key) await txn.delete(previous);
+      await txn.put(key, record);
+      await txn.put(this.emailKey(email), key);
+    });
+    return record;
+  }
+
+  /** Free the account's handle, if it has one */
+  async release({ email }: { email: string }): Promise<{ released: string | null }> {
+    const emailKey = this.emailKey(email);
+    const key = await this.ctx.storage.get<string>(emailKey);
+    if (!key) return { released: null };
+    const record = await this.ctx.storage.get<HandleRecord>(key);
+    await this.ctx.storage.delete([key, emailKey]);
+    return { released: record?.handle ?? null };
+  }
+
+  /** Point the account's handle at its new email after an email change */
+  async moveEmail({ from, to }: { from: string; to: string }): Promise<{ ok: boolean }> {
+    const fromKey = this.emailKey(from);
+    const key = await this.ctx.storage.get<string>(fromKey);
+    if (!key) return { ok: true };
+    const record = await this.ctx.storage.get<HandleRecord>(key);
+    await this.ctx.storage.transaction(async (txn) => {
+      if (record) await txn.put(key, { ...record, email: to.toLowerCase() });
+      await txn.delete(fromKey);
+      await txn.put(this.emailKey(to), key);
+    });
+    return { ok: true };
+  }
+
+  /** Owner of a handle, in any letter case */
+  async lookup({ handle }: { handle: string }): Promise<HandleRecord | null> {
+    return await this.ctx.storage.get<HandleRecord>(this.handleKey(handle)) ?? null;
+  }
+
+  /** Handle held by an account */
+  async handleFor({ email }: { email: string }): Promise<HandleRecord | null> {
+    const key = await this.ctx.storage.get<string>(this.emailKey(email));
+    return key ? await this.ctx.storage.get<HandleRecord>(key) ?? null : null;
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test';
+import { importUsers } from './import';
+import { verifyPassword, type FirebaseHashConfig } from './password';
+import type { ImportedUser, UserDO } from './UserDO';
+
+// Firebase project parameters and user from the firebase/scrypt reference vector
+const firebase: FirebaseHashConfig = {
+  signerKey: 'jxspr8Ki0RYycVU8zykbdLGjFQ3McFUH0uiiTvC8pVMXAn210wjLNmdZJzxUECKbm0QsEmYUSDzZvpjeJ9WmXA==',
+  saltSeparator: 'Bw==',
+  rounds: 8,
+  memCost: 14,
+};
+const firebaseUser = {
+  email: 'firebase@example.com',
+  passwordHash: 'lSrfV15cpx95/sZS2W9c9Kp6i/LVgQNDNC/qzrCnh1SAyZvqmZqAjTdn3aoItz+VHjoZilo78198JAdRuid5lQ==',
+  passwordSalt: '42xEC+ixf3L2lw==',
+};
+
+// Stands in for the UserDO namespace: one stored user per email
+function createStore(existing: string[] = []) {
+  const users = new Map<string, ImportedUser>(existing.map(email => [email, { email }]));
+  const getUserDO = (email: string) => ({
+    async importUser(user: ImportedUser) {
+      if (users.has(email)) return { imported: false, reason: 'Email already registered' };
+      users.set(email, user);
+      return { imported: true };
+    },
+  }) as unknown as UserDO;
+  return { users, getUserDO };
+}
+
+describe('importUsers', () => {
+  test('imports each supported format so the original password still verifies', async () => {
+    const { users, getUserDO } = createStore();
+    const report = await importUsers(getUserDO, [
+      { email: 'Auth0@Example.com', passwordHash: '$2a$06$If6bvum7DFjUnE9p2uDeDu0YHzrHM6tf.iqN8.yx.jNN1ILEf7h0i', emailVerified: true },
+      { email: 'django@example.com', passwordHash: 'pbkdf2_sha256$870000$Kf2pV8xT1qLmZ7wR3nYc0s$Puh7Nf8K7P2bu9drZS8jmDS/C3Eih1fd2EmauuF8Pg0=' },
+      firebaseUser,
+      { email: 'passwordless@example.com' },
+    ], { firebase });
+
+    expect(report).toMatchObject({ imported: 4, skipped: 0, failed: 0 });
+    expect(report.results.map(r => [r.email, r.format])).toEqual([
+      ['auth0@example.com', 'bcrypt'],
+      ['django@example.com', 'django-pbkdf2'],
+      ['firebase@example.com', 'firebase-scrypt'],
+      ['passwordless@example.com', undefined],
+    ]);
+
+    expect(users.get('auth0@example.com')).toMatchObject({ email: 'auth0@example.com', emailVerified: true });
+    expect(await verifyPassword('abc', users.get('auth0@example.com')!.passwordHash!)).toBe(true);
+    expect(await verifyPassword('correct horse battery staple', users.get('django@example.com')!.passwordHash!)).toBe(true);
+    expect(await verifyPassword('user1password', users.get('firebase@example.com')!.passwordHash!)).toBe(true);
+    expect(users.get('firebase@example.com')).not.toHaveProperty('passwordSalt');
+    expect(users.get('passwordless@example.com')!.passwordHash).toBeUndefined();
+  });
+
+  test('reports skipped and failed records in input order', async () => {
+    const { users, getUserDO } = createStore(['taken@example.com']);
+    const report = await importUsers(getUserDO, [
+      { email: 'taken@example.com', passwordHash: '$2a$06$If6bvum7DFjUnE9p2uDeDu0YHzrHM6tf.iqN8.yx.jNN1ILEf7h0i' },
+      { email: 'md5@example.com', passwordHash: '5f4dcc3b5aa765d61d8327deb882cf99' },
+      { email: 'bare@example.com', passwordHash: 'BntVcIVSNzZWqY+K7GAIM11MKFiMCticdD5ntVU+LE0=' },
+      { ...firebaseUser, email: 'nofirebase@example.com' },
+      { email: '' },
+    ]);
+
+    expect(report).toMatchObject({ imported: 0, skipped: 1, failed: 4 });
+    expect(report.results.map(r => [r.status, r.reason])).toEqual([
+      ['skipped', 'Email already registered'],
+      ['failed', 'Unsupported password hash format'],
+      ['failed', 'Unsupported password hash format'],
+      ['failed', 'passwordSalt given without Firebase hash parameters'],
+      ['failed', 'Missing email'],
+    ]);
+    expect([...users.keys()]).toEqual(['taken@example.com']);
+  });
+
+  test('records errors thrown by the Durable Object', async () => {
+    const getUserDO = () => ({
+      async importUser() {
+        throw new Error('Storage unavailable');
+      },
+    }) as unknown as UserDO;
+    const report = await importUsers(getUserDO, [{ email: 'a@example.com' }]);
+    expect(report.results).toEqual([{ email: 'a@example.com', status: 'failed', reason: 'Storage unavailable' }]);
+  });
+
+  test('never runs more imports at once than the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const getUserDO = () => ({
+      async importUser() {
+        peak = Math.max(peak, ++active);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        active--;
+        return { imported: true };
+      },
+    }) as unknown as UserDO;
+    const records = Array.from({ length: 12 }, (_, i) => ({ email: `user${i}@example.com` }));
+    const report = await importUsers(getUserDO, records, { concurrency: 3 });
+    expect(report.imported).toBe(12);
+    expect(peak).toBe(3);
+  });
+});
@@ -0,0 +1,96 @@
+import type { UserDO, ImportedUser } from './UserDO.js';
+import {
+  detectPasswordHashFormat,
+  formatFirebaseScryptHash,
+  type FirebaseHashConfig,
+  type PasswordHashFormat,
+} from './password.js';
+
+// Bulk import of accounts from another auth system. Password hashes are kept in
+// their original format and upgraded to the native one when each user next logs in.
+
+export type ImportUserRecord = ImportedUser & {
+  /** Firebase exports keep the salt next to the hash; requires the firebase option */
+  passwordSalt?: string;
+};
+
+export type ImportOptions = {
+  /** Project hash parameters, needed for Firebase Auth exports */
+  firebase?: FirebaseHashConfig;
+  /** Accounts seeded in parallel (default: 10) */
+  concurrency?: number;
+};
+
+export type ImportUserResult = {
+  email: string;
+  status: 'imported' | 'skipped' | 'failed';
+  /** Format of the imported password hash; absent for passwordless accounts */
+  format?: PasswordHashFormat;
+  reason?: string;
+};
+
+export type ImportReport = {
+  imported: number;
+  skipped: number;
+  failed: number;
+  results: ImportUserResult[];
+};
+
+const DEFAULT_CONCURRENCY = 10;
+
+// Normalise one record so the stored hash is self-describing
+function prepareRecord(record: ImportUserRecord, options: ImportOptions): ImportedUser {
+  const { passwordSalt, ...user } = record;
+  if (!user.email) throw new Error('Missing email');
+  if (!user.passwordHash) return user;
+
+  if (passwordSalt) {
+    if (!options.firebase) throw new Error('passwordSalt given without Firebase hash parameters');
+    return { ...user, passwordHash: formatFirebaseScryptHash(user.passwordHash, passwordSalt, options.firebase) };
+  }
+  const format = detectPasswordHashFormat(user.passwordHash);
+  // A bare base64 string is only meaningful with a salt
+  if (!format || format === 'legacy') throw new Error('Unsupported password hash format');
+  return user;
+}
+
+/**
+ * Seed accounts from another auth system, one UserDO per email
+ * @param getUserDO - Returns the Durable Object for an email
+ * @param records - Users to import
+ * @param options - Firebase parameters and parallelism
+ * @returns Counts and a result for every record, in input order
+ */
+export async function importUsers(
+  getUserDO: (email: string) => UserDO,
+  records: ImportUserRecord[],
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const results: ImportUserResult[] = new Array(records.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < records.length) {
+      const index = next++;
+      const email = (records[index].email || '').toLowerCase();
+      try {
+        const user = prepareRecord({ ...records[index], email }, options);
+        const format = user.passwordHash ? detectPasswordHashFormat(user.passwordHash) ?? undefined : undefined;
+        const { imported, reason } = await getUserDO(email).importUser(user);
+        results[index] = { email, status: imported ? 'imported' : 'skipped', format, reason };
+      } catch (e) {
+        results[index] = { email, status: 'failed', reason: e instanceof Error ? e.message : String(e) };
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, options.concurrency || DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: Math.min(concurrency, records.length) }, worker));
+
+  return {
+    imported: results.filter(r => r.status === 'imported').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    results,
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import { generateRefreshToken, signJWT, verifyAccessToken, verifyJWT, type VerifyJWTOptions } from './jwt-utils';
+
+const SECRET = 'jwt-utils-test-secret';
+const expected = { issuer: 'https://auth.example.com', audience: 'web' };
+
+const accessToken = (claims: Record<string, unknown> = {}) => signJWT({
+  sub: 'user-1',
+  email: 'owner@example.com',
+  iss: expected.issuer,
+  aud: expected.audience,
+  exp: Math.floor(Date.now() / 1000) + 60,
+  ...claims,
+}, SECRET);
+
+describe('verifyJWT', () => {
+  test('checks issuer and audience', async () => {
+    expect(await verifyJWT(await accessToken(), SECRET, expected)).toMatchObject({ ok: true });
+    expect(await verifyJWT(await accessToken({ iss: 'https://evil.example.com' }), SECRET, expected))
+      .toEqual({ ok: false, error: 'Invalid token issuer' });
+    expect(await verifyJWT(await accessToken({ aud: 'admin' }), SECRET, expected))
+      .toEqual({ ok: false, error: 'Invalid token audience' });
+  });
+
+  test('null skips a check', async () => {
+    const token = await accessToken({ iss: undefined, aud: undefined });
+    expect(await verifyJWT(token, SECRET, { issuer: null, audience: null })).toMatchObject({ ok: true });
+    expect(await verifyJWT(token, SECRET, expected)).toMatchObject({ ok: false });
+  });
+
+  test('throws when issuer or audience is left out', async () => {
+    const token = await accessToken();
+    await expect(verifyJWT(token, SECRET, {} as VerifyJWTOptions)).rejects.toThrow('verifyJWT requires { issuer, audience }');
+    await expect(verifyJWT(token, SECRET, { issuer: expected.issuer } as VerifyJWTOptions)).rejects.toThrow();
+  });
+});
+
+describe('verifyAccessToken', () => {
+  test('accepts access tokens and rejects every other type', async () => {
+    expect(await verifyAccessToken(await accessToken(), SECRET, expected)).toMatchObject({ ok: true });
+    expect(await verifyAccessToken(await accessToken({ type: 'password_reset' }), SECRET, expected))
+      .toEqual({ ok: false, error: 'Invalid token type' });
+    expect(await verifyAccessToken(await generateRefreshToken('user-1', SECRET), SECRET, { issuer: null, audience: null }))
+      .toEqual({ ok: false, error: 'Invalid token type' });
+  });
+});
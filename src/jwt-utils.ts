@@ -1,11 +1,21 @@
 import jwt from '@tsndr/cloudflare-worker-jwt';
+import type { KeyRing } from './keys.js';
+import { DEFAULT_USER_DO_CONFIG } from './config.js';
+
+const { tokens } = DEFAULT_USER_DO_CONFIG;
 
 // JWT payload type matching the UserDO internal implementation
 export type JwtPayload = {
   sub: string;
   email?: string; // Optional for refresh tokens
+  handle?: string; // Access tokens of accounts with a handle
+  act?: { sub: string; email?: string }; // Staff member on impersonation tokens
   exp?: number;
   iat?: number;
+  iss?: string;
+  aud?: string | string[];
+  jti?: string;
+  sid?: string;
   type?: string; // For refresh tokens, password reset tokens, etc.
 };
 
@@ -26,19 +36,34 @@ export function decodeJWT(token: string): JwtPayload | null {
   }
 }
 
+// Expected `iss` and `aud`. Both are required so a forgotten check can't pass
+// silently; null skips one, for deployments that don't set JWT_ISSUER/JWT_AUDIENCE.
+export type VerifyJWTOptions = {
+  issuer: string | null;
+  audience: string | null;
+};
+
 /**
  * JWT verification with secret - extracted from UserDO implementation
  * @param token - JWT token to verify
- * @param secret - JWT secret for verification
+ * @param secret - JWT secret, or the key ring from getKeyRing(env)
+ * @param options - Expected issuer and audience (null to skip either check)
  * @returns Verification result with payload if valid
  */
-export async function verifyJWT(token: string, secret: string): Promise<{
+export async function verifyJWT(
+  token: string,
+  secret: string | KeyRing,
+  options: VerifyJWTOptions
+): Promise<{
   ok: boolean;
   payload?: JwtPayload;
   error?: string;
 }> {
+  if (options?.issuer === undefined || options?.audience === undefined) {
+    throw new Error('verifyJWT requires { issuer, audience }; pass null to skip a check');
+  }
   try {
-    const isValid = await jwt.verify(token, secret);
+    const isValid = typeof secret === 'string' ? await jwt.verify(token, secret) : await secret.verify(token);
     if (!isValid) {
       return { ok: false, error: 'Invalid token' };
     }
@@ -48,7 +73,15 @@ export async function verifyJWT(token: string, secret: string): Promise<{
       return { ok: false, error: 'Invalid token payload' };
     }
 
-    return { ok: true, payload: decoded.payload as JwtPayload };
+    const payload = decoded.payload as JwtPayload;
+    if (options.issuer !== null && payload.iss !== options.issuer) {
+      return { ok: false, error: 'Invalid token issuer' };
+    }
+    if (options.audience !== null && !(Array.isArray(payload.aud) ? payload.aud : [payload.aud]).includes(options.audience)) {
+      return { ok: false, error: 'Invalid token audience' };
+    }
+
+    return { ok: true, payload };
   } catch (error) {
     return {
       ok: false,
@@ -96,46 +129,48 @@ export function getEmailFromToken(token: string): string | null {
 /**
  * Sign a JWT token with the given payload and secret
  * @param payload - JWT payload
- * @param secret - JWT secret
+ * @param secret - JWT secret, or the key ring from getKeyRing(env)
  * @returns Promise resolving to signed token
  */
-export async function signJWT(payload: JwtPayload, secret: string): Promise<string> {
-  return await jwt.sign(payload, secret);
+export async function signJWT(payload: JwtPayload, secret: string | KeyRing): Promise<string> {
+  return typeof secret === 'string' ? await jwt.sign(payload, secret) : await secret.sign(payload);
 }
 
 /**
  * Generate a UserDO-compatible access token
  * @param userId - User ID
  * @param email - User email
- * @param secret - JWT secret
+ * @param secret - JWT secret, or the key ring from getKeyRing(env)
  * @param expiresInMinutes - Token expiration in minutes (default: 15)
  * @returns Promise resolving to signed access token
  */
 export async function generateAccessToken(
   userId: string,
   email: string,
-  secret: string,
-  expiresInMinutes: number = 15
+  secret: string | KeyRing,
+  expiresInMinutes: number = tokens.accessTokenTtl / 60
 ): Promise<string> {
-  const exp = Math.floor(Date.now() / 1000) + expiresInMinutes * 60;
+  const iat = Math.floor(Date.now() / 1000);
   return await signJWT({
     sub: userId,
     email: email.toLowerCase(),
-    exp
+    iat,
+    jti: crypto.randomUUID(),
+    exp: iat + expiresInMinutes * 60
   }, secret);
 }
 
 /**
  * Generate a UserDO-compatible refresh token
  * @param userId - User ID
- * @param secret - JWT secret
+ * @param secret - JWT secret, or the key ring from getKeyRing(env)
  * @param expiresInDays - Token expiration in days (default: 7)
  * @returns Promise resolving to signed refresh token
  */
 export async function generateRefreshToken(
   userId: string,
-  secret: string,
-  expiresInDays: number = 7
+  secret: string | KeyRing,
+  expiresInDays: number = tokens.refreshTokenTtl / 86400
 ): Promise<string> {
   const exp = Math.floor(Date.now() / 1000) + expiresInDays * 24 * 60 * 60;
   return await signJWT({
@@ -146,79 +181,46 @@ export async function generateRefreshToken(
 }
 
 /**
- * Verify tokens with automatic refresh - decodes email from expired access token
- * @param token - Current access token (may be expired)
- * @param refreshToken - Refresh token (optional)
- * @param secret - JWT secret
- * @returns Verification result with payload and new token if refreshed
+ * Verify an access token outside a UserDO: signature, expiry, issuer, audience, and
+ * no `type` (refresh, reset and MFA tokens are rejected). Session revocation is only
+ * checked by UserDO.verifyToken(), and expired tokens are renewed with
+ * UserDO.refreshToken().
+ * @param token - Access token
+ * @param secret - JWT secret, or the key ring from getKeyRing(env)
+ * @param options - Expected issuer and audience (null to skip either check)
+ * @returns Verification result with payload if valid
  */
-export async function verifyTokens(
+export async function verifyAccessToken(
   token: string,
-  refreshToken: string | undefined,
-  secret: string
+  secret: string | KeyRing,
+  options: VerifyJWTOptions
 ): Promise<{
   ok: boolean;
   payload?: JwtPayload;
-  newToken?: string;
   error?: string;
 }> {
-  // Try current token first
-  const result = await verifyJWT(token, secret);
-  if (result.ok && result.payload) {
-    return { ok: true, payload: result.payload };
+  const result = await verifyJWT(token, secret, options);
+  if (result.ok && result.payload?.type) {
+    return { ok: false, error: 'Invalid token type' };
   }
-
-  // If token failed and we have refresh token, try refresh
-  if (refreshToken) {
-    try {
-      // Decode (but don't verify) the expired access token to get email
-      const decodedToken = decodeJWT(token);
-      const email = decodedToken?.email;
-
-      if (!email) {
-        return { ok: false, error: 'Cannot decode email from access token' };
-      }
-
-      const refreshResult = await verifyJWT(refreshToken, secret);
-
-      if (refreshResult.ok && refreshResult.payload) {
-        // Ensure it's a refresh token
-        if (refreshResult.payload.type !== 'refresh') {
-          return { ok: false, error: 'Invalid refresh token type' };
-        }
-
-        const userId = refreshResult.payload.sub;
-
-        // Generate new access token using decoded email
-        const newToken = await generateAccessToken(userId, email, secret);
-
-        return {
-          ok: true,
-          payload: { sub: userId, email },
-          newToken
-        };
-      }
-    } catch (e) {
-      return { ok: false, error: 'Token refresh failed' };
-    }
-  }
-
-  return { ok: false, error: 'Token verification failed' };
+  return result;
 }
 
 /**
- * Generate a UserDO-compatible password reset token
+ * Generate a password reset token in the UserDO format. UserDO itself only accepts
+ * the single-use tokens from its own generatePasswordResetToken(); use this for
+ * services that verify reset links themselves.
  * @param userId - User ID
  * @param email - User email
- * @param secret - JWT secret
+ * @param secret - JWT secret, or the key ring from getKeyRing(env)
  * @param expiresInMinutes - Token expiration in minutes (default: 60)
  * @returns Promise resolving to signed password reset token
  */
 export async function generatePasswordResetToken(
   userId: string,
   email: string,
-  secret: string,
-  expiresInMinutes: number = 60
+  secret: string | KeyRing,
+  expiresInMinutes: number = tokens.passwordResetTtl / 60
 ): Promise<string> {
   const exp = Math.floor(Date.now() / 1000) + expiresInMinutes * 60;
   return await signJWT({
@@ -0,0 +1,155 @@
+import jwt, { type JwtData } from '@tsndr/cloudflare-worker-jwt';
+
+// Key ring for every token UserDO signs. Keys come from the JWT_KEYS secret (a JSON
+// array of SigningKey); JWT_SECRET remains a valid HS256 key so existing tokens keep
+// working. Tokens carry a `kid` header naming the key that signed them.
+
+export type SigningAlgorithm = 'HS256' | 'ES256' | 'RS256';
+
+export type SigningKey = {
+  kid: string;
+  alg: SigningAlgorithm;
+  /** HS256 shared secret */
+  secret?: string;
+  /** ES256/RS256 private key as a JWK; required for the signing key */
+  privateKey?: JsonWebKey;
+  /** ES256/RS256 public key as a JWK; derived from privateKey when omitted */
+  publicKey?: JsonWebKey;
+  /** Only verify tokens with this key (e.g. while rotating it out) */
+  verifyOnly?: boolean;
+};
+
+// Env bindings the key ring is built from
+export type KeyRingEnv = {
+  JWT_SECRET?: string;
+  JWT_KEYS?: string;
+};
+
+// kid used for tokens signed with JWT_SECRET
+export const JWT_SECRET_KID = 'jwt-secret';
+
+const PRIVATE_JWK_FIELDS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'] as const;
+
+function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  const publicJwk: Record<string, unknown> = { ...jwk };
+  for (const field of PRIVATE_JWK_FIELDS) delete publicJwk[field];
+  delete publicJwk.key_ops;
+  delete publicJwk.ext;
+  return publicJwk as JsonWebKey;
+}
+
+/**
+ * Signs with one key and verifies with all of them, so keys can be rotated
+ * without logging anyone out
+ */
+export class KeyRing {
+  readonly keys: SigningKey[];
+  readonly signingKey: SigningKey;
+
+  constructor(keys: SigningKey[]) {
+    for (const key of keys) {
+      if (key.alg === 'HS256' ? !key.secret : !key.privateKey && !key.publicKey) {
+        throw new Error(`Signing key ${key.kid} has no key material`);
+      }
+    }
+    const signingKey = keys.find(k => !k.verifyOnly);
+    if (!signingKey) throw new Error('No signing key configured (set JWT_SECRET or JWT_KEYS)');
+    if (signingKey.alg !== 'HS256' && !signingKey.privateKey) {
+      throw new Error(`Signing key ${signingKey.kid} has no private key`);
+    }
+    this.keys = keys;
+    this.signingKey = signingKey;
+  }
+
+  /**
+   * Sign a payload with the current signing key
+   * @param payload - JWT claims
+   * @returns Signed token with a kid header
+   */
+  async sign(payload: Record<string, unknown>): Promise<string> {
+    const key = this.signingKey;
+    return jwt.sign(payload, key.alg === 'HS256' ? key.secret! : { ...key.privateKey!, kid: key.kid }, {
+      algorithm: key.alg,
+      header: { typ: 'JWT', kid: key.kid },
+    });
+  }
+
+  /**
+   * Verify a token against the key named by its kid header. Tokens from before
+   * the key ring (no kid) are checked against JWT_SECRET.
+   * @param token - Signed token
+   * @returns Decoded token, or undefined if the signature or expiry check fails
+   */
+  async verify<T = {}>(token: string): Promise<JwtData<T, {}> | undefined> {
+    let kid: string | undefined;
+    try {
+      kid = (jwt.decode(token).header as { kid?: string } | undefined)?.kid;
+    } catch {
+      return undefined;
+    }
+    const key = this.keys.find(k => k.kid === (kid || JWT_SECRET_KID));
+    if (!key) return undefined;
+
+    const material = key.alg === 'HS256'
+      ? key.secret!
+      : { ...(key.publicKey || toPublicJwk(key.privateKey!)), kid: key.kid };
+    return jwt.verify<T>(token, material, { algorithm: key.alg });
+  }
+
+  /**
+   * Public keys for other services to verify tokens with (HS256 keys are never published)
+   * @returns JSON Web Key Set
+   */
+  jwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: this.keys
+        .filter(k => k.alg !== 'HS256')
+        .map(k => ({ ...toPublicJwk(k.publicKey || k.privateKey!), kid: k.kid, alg: k.alg, use: 'sig' }) as JsonWebKey),
+    };
+  }
+}
+
+const keyRingCache = new Map<string, KeyRing>();
+
+/**
+ * Build (and cache) the key ring for an environment
+ * @param env - Bindings holding JWT_KEYS and/or JWT_SECRET
+ * @returns Key ring; JWT_KEYS entries come first, so the first of them signs
+ */
+export function getKeyRing(env: KeyRingEnv): KeyRing {
+  const cacheKey = `${env.JWT_KEYS || ''}\n${env.JWT_SECRET || ''}`;
+  const cached = keyRingCache.get(cacheKey);
+  if (cached) return cached;
+
+  const keys: SigningKey[] = env.JWT_KEYS ? JSON.parse(env.JWT_KEYS) : [];
+  if (!Array.isArray(keys)) throw new Error('JWT_KEYS must be a JSON array of signing keys');
+  if (env.JWT_SECRET && !keys.some(k => k.kid === JWT_SECRET_KID)) {
+    keys.push({ kid: JWT_SECRET_KID, alg: 'HS256', secret: env.JWT_SECRET });
+  }
+
+  const keyRing = new KeyRing(keys);
+  keyRingCache.set(cacheKey, keyRing);
+  return keyRing;
+}
+
+/**
+ * Create a new asymmetric signing key, e.g. to add to JWT_KEYS
+ * @param alg - ES256 (default) or RS256
+ * @param kid - Key id (default: random)
+ * @returns Key entry with private and public JWKs
+ */
+export async function generateSigningKey(
+  alg: Exclude<SigningAlgorithm, 'HS256'> = 'ES256',
+  kid: string = crypto.randomUUID()
+): Promise<SigningKey> {
+  const algorithm = alg === 'ES256'
+    ? { name: 'ECDSA', namedCurve: 'P-256' }
+    : { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' };
+  const pair = await crypto.subtle.generateKey(algorithm, true, ['sign', 'verify']) as CryptoKeyPair;
+  return {
+    kid,
+    alg,
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey) as JsonWebKey,
+    publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey) as JsonWebKey,
+  };
+}
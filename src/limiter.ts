@@ -0,0 +1,145 @@
+import { DurableObject } from 'cloudflare:workers';
+
+// Rate limiting shared by UserDO (per-account buckets) and the worker (per-client-IP
+// buckets, kept in RateLimiterDO).
+
+export type RateLimitRule = {
+  limit: number;
+  windowSeconds: number;
+};
+
+// Failed sign-ins: a few free attempts, then a delay that doubles with every failure
+export type BackoffRule = {
+  freeAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+};
+
+// Per-account limits, tracked inside each UserDO. Anyone can trigger the reset,
+// sign-in code and verification emails, so each has its own bucket: using one up
+// doesn't stop the others.
+export interface UserRateLimits {
+  /** Per client IP */
+  failedLogin: BackoffRule;
+  /** All clients together, except those that already have a session on the account */
+  accountFailedLogin: BackoffRule;
+  signup: RateLimitRule;
+  passwordReset: RateLimitRule;
+  loginCode: RateLimitRule;
+  verification: RateLimitRule;
+  /** Emails sent for the signed-in user: secondary address and email change confirmations */
+  email: RateLimitRule;
+  /** Everything else that used to share the single 5-per-minute counter */
+  default: RateLimitRule;
+}
+
+// Per-client-IP limits, enforced by the worker before a UserDO is reached
+export interface IpRateLimits {
+  login: RateLimitRule;
+  signup: RateLimitRule;
+  email: RateLimitRule;
+}
+
+// Defaults live with the rest of the policy in config.ts
+export { DEFAULT_USER_RATE_LIMITS, DEFAULT_IP_RATE_LIMITS } from './config.js';
+
+export type WindowRecord = {
+  count: number;
+  resetAt: number;
+};
+
+/**
+ * Thrown when a bucket is exhausted. Durable Object RPC only keeps the message,
+ * so the retry delay is part of it - read it back with parseRetryAfter().
+ */
+export class RateLimitError extends Error {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    const seconds = Math.max(1, Math.ceil(retryAfter));
+    super(`Too many requests, try again in ${seconds} seconds`);
+    this.name = 'RateLimitError';
+    this.retryAfter = seconds;
+  }
+}
+
+/**
+ * Recover the retry delay from a rate limit error message
+ * @param message - Error message, possibly from across an RPC boundary
+ * @returns Seconds to wait, or null if the message isn't a rate limit error
+ */
+export function parseRetryAfter(message: string | undefined): number | null {
+  const match = message?.match(/^Too many requests, try again in (\d+) seconds$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Count one hit against a fixed-window bucket
+ * @param record - Stored state for the bucket, if any
+ * @param rule - Limit and window length
+ * @param now - Current time in milliseconds
+ * @returns Updated record and, when over the limit, the seconds until the window resets
+ */
+export function consumeWindow(
+  record: WindowRecord | undefined,
+  rule: RateLimitRule,
+  now: number = Date.now()
+): { record: WindowRecord; retryAfter: number | null } {
+  if (!record || record.resetAt <= now) {
+    return { record: { count: 1, resetAt: now + rule.windowSeconds * 1000 }, retryAfter: null };
+  }
+  if (record.count >= rule.limit) {
+    return { record, retryAfter: Math.ceil((record.resetAt - now) / 1000) };
+  }
+  return { record: { ...record, count: record.count + 1 }, retryAfter: null };
+}
+
+/**
+ * Lockout length after a number of consecutive failures
+ * @param failures - Consecutive failures so far
+ * @param rule - Backoff settings
+ * @returns Delay in seconds (0 while within the free attempts)
+ */
+export function backoffDelay(failures: number, rule: BackoffRule): number {
+  if (failures < rule.freeAttempts) return 0;
+  const exponent = failures - rule.freeAttempts;
+  return Math.min(rule.maxDelaySeconds, rule.baseDelaySeconds * 2 ** exponent);
+}
+
+/**
+ * Per-client counters for the worker. One instance per client IP
+ * (idFromName(ip)); idle state is cleared by an alarm.
+ */
+export class RateLimiterDO extends DurableObject {
+  async consume(
+    { bucket, limit, windowSeconds }: { bucket: string } & RateLimitRule
+  ): Promise<{ ok: boolean; retryAfter: number | null }> {
+    const key = `bucket:${bucket}`;
+    const { record, retryAfter } = consumeWindow(
+      await this.ctx.storage.get<WindowRecord>(key),
+      { limit, windowSeconds }
+    );
+    await this.ctx.storage.put(key, record);
+
+    const alarm = await this.ctx.storage.getAlarm();
+    if (!alarm || alarm < record.resetAt) {
+      await this.ctx.storage.setAlarm(record.resetAt);
+    }
+
+    return { ok: retryAfter === null, retryAfter };
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const records = await this.ctx.storage.list<WindowRecord>({ prefix: 'bucket:' });
+    let next = 0;
+    for (const [key, record] of records) {
+      if (record.resetAt <= now) {
+        await this.ctx.storage.delete(key);
+      } else {
+        next = Math.max(next, record.resetAt);
+      }
+    }
+    if (next) await this.ctx.storage.setAlarm(next);
+  }
+}
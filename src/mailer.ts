@@ -0,0 +1,123 @@
+// Pluggable email delivery. UserDO only produces tokens; the worker hands
+// them to a Mailer so apps can plug in Resend, SES, MailChannels, etc.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them - the default for local development
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Keeps sent messages in memory so tests can read tokens and links back
+ */
+export class MemoryMailer implements Mailer {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  // Most recent message, optionally for a single recipient
+  last(to?: string): MailMessage | undefined {
+    const messages = to ? this.sent.filter(m => m.to === to) : this.sent;
+    return messages[messages.length - 1];
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+export type EmailVerificationContext = {
+  email: string;
+  url: string;
+  token: string;
+  appName: string;
+};
+
+export type PasswordResetContext = {
+  email: string;
+  url: string;
+  token: string;
+  appName: string;
+  expiresInMinutes: number;
+};
+
+export type EmailChangeContext = {
+  /** Current address of the account */
+  email: string;
+  newEmail: string;
+  url: string;
+  token: string;
+  appName: string;
+  expiresInMinutes: number;
+};
+
+export type LoginCodeContext = {
+  email: string;
+  code: string;
+  url: string;
+  appName: string;
+  expiresInMinutes: number;
+};
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// For values interpolated into `html`: addresses are user input, and URLs can
+// carry quotes that would end an href attribute
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => HTML_ESCAPES[c]);
+}
+
+type Template<T> = (context: T) => { subject: string; text: string; html?: string };
+
+// Override any of these through the `templates` worker option
+export interface MailTemplates {
+  emailVerification: Template<EmailVerificationContext>;
+  passwordReset: Template<PasswordResetContext>;
+  emailLink: Template<EmailVerificationContext>;
+  loginCode: Template<LoginCodeContext>;
+  emailChange: Template<EmailChangeContext>;
+}
+
+export const defaultTemplates: MailTemplates = {
+  emailVerification: ({ url, appName }) => ({
+    subject: `Verify your email for ${appName}`,
+    text: `Confirm your email address by opening this link:\n\n${url}\n\nIf you did not create an account, you can ignore this email.`,
+    html: `<p>Confirm your email address by opening this link:</p><p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p><p>If you did not create an account, you can ignore this email.</p>`,
+  }),
+  passwordReset: ({ url, appName, expiresInMinutes }) => ({
+    subject: `Reset your ${appName} password`,
+    text: `Someone asked to reset the password for your account. Open this link to choose a new one:\n\n${url}\n\nThe link expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.`,
+    html: `<p>Someone asked to reset the password for your account. Open this link to choose a new one:</p><p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p><p>The link expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.</p>`,
+  }),
+  emailLink: ({ email, url, appName }) => ({
+    subject: `Confirm ${email} for your ${appName} account`,
+    text: `Confirm that you want to add this address to your account by opening this link:\n\n${url}\n\nIf you did not ask for this, you can ignore this email.`,
+    html: `<p>Confirm that you want to add this address to your account by opening this link:</p><p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p><p>If you did not ask for this, you can ignore this email.</p>`,
+  }),
+  loginCode: ({ code, url, appName, expiresInMinutes }) => ({
+    subject: `Your ${appName} sign-in code: ${code}`,
+    text: `Your sign-in code is ${code}\n\nOr sign in with this link:\n\n${url}\n\nThe code and link expire in ${expiresInMinutes} minutes and can be used once. If you did not ask for this, you can ignore this email.`,
+    html: `<p>Your sign-in code is <strong>${code}</strong></p><p>Or sign in with this link:</p><p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p><p>The code and link expire in ${expiresInMinutes} minutes and can be used once. If you did not ask for this, you can ignore this email.</p>`,
+  }),
+  emailChange: ({ email, newEmail, url, appName, expiresInMinutes }) => ({
+    subject: `Confirm your new email for ${appName}`,
+    text: `Confirm that you want to change the email of your account from ${email} to ${newEmail} by opening this link:\n\n${url}\n\nThe link expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.`,
+    html: `<p>Confirm that you want to change the email of your account from ${escapeHtml(email)} to ${escapeHtml(newEmail)} by opening this link:</p><p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p><p>The link expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.</p>`,
+  }),
+};
@@ -0,0 +1,202 @@
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import { oidcProvider, type FetchLike } from './oauth';
+import { createNamespace, silenceConsole } from './test-utils';
+
+const { UserDO, createUserDOWorker } = await import('./worker');
+
+// Local stand-in for an OpenID Connect provider. Issues codes bound to the PKCE
+// challenge and nonce from the authorization request, and signs ES256 ID tokens.
+async function createStubIdP(clientId: string) {
+  const issuer = 'https://idp.test';
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const key = {
+    kid: 'idp-key',
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey) as JsonWebKey,
+    publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey) as JsonWebKey,
+  };
+  const grants = new Map<string, { challenge: string; nonce: string; redirectUri: string; claims: Record<string, unknown> }>();
+  let nextCode = 0;
+
+  const provider = oidcProvider({
+    id: 'stub',
+    issuer,
+    clientId,
+    clientSecret: 'stub-secret',
+    authorizationEndpoint: `${issuer}/authorize`,
+    tokenEndpoint: `${issuer}/token`,
+    jwksUri: `${issuer}/jwks`,
+  });
+
+  const sha256Base64Url = async (value: string) => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+    return btoa(String.fromCharCode(...digest)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  };
+
+  const fetch: FetchLike = async (input, init) => {
+    if (input === `${issuer}/jwks`) {
+      const { key_ops, ext, ...publicKey } = key.publicKey;
+      return Response.json({ keys: [{ ...publicKey, kid: key.kid, alg: 'ES256', use: 'sig' }] });
+    }
+    if (input === `${issuer}/token` && init?.method === 'POST') {
+      const body = new URLSearchParams(String(init.body));
+      const grant = grants.get(body.get('code') || '');
+      grants.delete(body.get('code') || '');
+      if (
+        !grant ||
+        body.get('client_id') !== clientId ||
+        body.get('redirect_uri') !== grant.redirectUri ||
+        await sha256Base64Url(body.get('code_verifier') || '') !== grant.challenge
+      ) {
+        return Response.json({ error: 'invalid_grant' }, { status: 400 });
+      }
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await jwt.sign(
+        { iss: issuer, aud: clientId, iat: now, exp: now + 300, nonce: grant.nonce, ...grant.claims },
+        { ...key.privateKey, kid: key.kid },
+        { algorithm: 'ES256', header: { typ: 'JWT', kid: key.kid } }
+      );
+      return Response.json({ access_token: 'stub-access-token', token_type: 'Bearer', id_token: idToken });
+    }
+    return new Response('Not found', { status: 404 });
+  };
+
+  // The user signs in at the provider, which redirects back with a code
+  const authorize = (authorizationUrl: string, claims: Record<string, unknown>) => {
+    const url = new URL(authorizationUrl);
+    expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    const code = `code-${nextCode++}`;
+    grants.set(code, {
+      challenge: url.searchParams.get('code_challenge')!,
+      nonce: url.searchParams.get('nonce')!,
+      redirectUri: url.searchParams.get('redirect_uri')!,
+      claims,
+    });
+    const callback = new URL(url.searchParams.get('redirect_uri')!);
+    callback.searchParams.set('code', code);
+    callback.searchParams.set('state', url.searchParams.get('state')!);
+    return callback.toString();
+  };
+
+  return { provider, fetch, authorize };
+}
+
+const cookieValue = (response: Response, name: string) =>
+  response.headers.getSetCookie().find(c => c.startsWith(`${name}=`))?.split(';')[0].slice(name.length + 1);
+
+describe('OAuth callback against a stub IdP', () => {
+  let idp: Awaited<ReturnType<typeof createStubIdP>>;
+  let app: ReturnType<typeof createUserDOWorker>;
+  let env: Record<string, unknown>;
+  silenceConsole();
+
+  beforeAll(async () => {
+    idp = await createStubIdP('userdo-test');
+    app = createUserDOWorker('USERDO', { oauth: { providers: [idp.provider], fetch: idp.fetch } });
+  });
+
+  beforeEach(() => {
+    env = { JWT_SECRET: 'oauth-test-secret' };
+    env.USERDO = createNamespace(env, UserDO);
+  });
+
+  const request = (path: string, init: RequestInit = {}) =>
+    app.request(path.startsWith('http') ? path : `https://app.test${path}`, init, env);
+
+  // start -> provider -> callback, as the browser would follow the redirects
+  const signIn = async (claims: Record<string, unknown>, { tamperState = false } = {}) => {
+    const start = await request('/api/oauth/stub/start?redirect=/dashboard');
+    expect(start.status).toBe(302);
+    const stateCookie = cookieValue(start, 'oauthState')!;
+    let callbackUrl = idp.authorize(start.headers.get('location')!, claims);
+    if (tamperState) callbackUrl = callbackUrl.replace(/state=[^&]+/, 'state=forged');
+    return request(callbackUrl, { headers: { cookie: `oauthState=${stateCookie}` } });
+  };
+
+  test('creates a verified account and sets session cookies', async () => {
+    const callback = await signIn({ sub: 'idp-user-1', email: 'Owner@Example.com', email_verified: true });
+
+    expect(callback.status).toBe(302);
+    expect(callback.headers.get('location')).toBe('/dashboard');
+    const token = cookieValue(callback, 'token')!;
+    expect(token).toBeTruthy();
+
+    const me = await request('/api/me', { headers: { cookie: `token=${token}` } });
+    expect(me.status).toBe(200);
+    expect(await me.json()).toMatchObject({ user: { email: 'owner@example.com' } });
+  });
+
+  test('signs the same provider subject back into the same account', async () => {
+    const first = await signIn({ sub: 'idp-user-1', email: 'owner@example.com', email_verified: true });
+    const second = await signIn({ sub: 'idp-user-1', email: 'owner@example.com', email_verified: true });
+    const subject = (response: Response) => JSON.parse(atob(cookieValue(response, 'token')!.split('.')[1])).sub;
+    expect(subject(second)).toBe(subject(first));
+  });
+
+  test('removes access set up by whoever registered the address first', async () => {
+    const signup = await request('/api/signup', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'victim@example.com', password: 'attacker-chosen-Pa55!' }),
+    });
+    expect(signup.status).toBe(200);
+    const attackerToken = cookieValue(signup, 'token')!;
+
+    const callback = await signIn({ sub: 'victim-at-idp', email: 'victim@example.com', email_verified: true });
+    expect(callback.status).toBe(302);
+
+    const login = await request('/api/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'victim@example.com', password: 'attacker-chosen-Pa55!' }),
+    });
+    expect(login.status).toBe(400);
+    expect(await login.json()).toMatchObject({ error: 'Invalid credentials' });
+    const me = await request('/api/me', { headers: { cookie: `token=${attackerToken}` } });
+    expect(me.status).toBe(401);
+  });
+
+  test('rejects addresses the provider has not verified', async () => {
+    const callback = await signIn({ sub: 'idp-user-2', email: 'unverified@example.com', email_verified: false });
+    expect(callback.status).toBe(400);
+    expect(await callback.json()).toEqual({ error: 'Provider email is not verified' });
+  });
+
+  test('rejects a callback whose state does not match the cookie', async () => {
+    const callback = await signIn({ sub: 'idp-user-1', email: 'owner@example.com', email_verified: true }, { tamperState: true });
+    expect(callback.status).toBe(400);
+    expect(await callback.json()).toEqual({ error: 'Invalid OAuth state' });
+    expect(cookieValue(callback, 'token')).toBeUndefined();
+  });
+
+  test('rejects a callback without the state cookie', async () => {
+    const start = await request('/api/oauth/stub/start');
+    const callback = await request(idp.authorize(start.headers.get('location')!, { sub: 'x', email: 'x@example.com', email_verified: true }));
+    expect(callback.status).toBe(400);
+    expect(await callback.json()).toEqual({ error: 'Missing OAuth state' });
+  });
+
+  test('rejects a code issued to another login attempt (PKCE)', async () => {
+    // Start two flows, then answer the first one with the second one's code
+    const first = await request('/api/oauth/stub/start');
+    const second = await request('/api/oauth/stub/start');
+    const claims = { sub: 'idp-user-1', email: 'owner@example.com', email_verified: true };
+    const firstCallback = new URL(idp.authorize(first.headers.get('location')!, claims));
+    const secondCallback = new URL(idp.authorize(second.headers.get('location')!, claims));
+    firstCallback.searchParams.set('code', secondCallback.searchParams.get('code')!);
+
+    const callback = await request(firstCallback.toString(), {
+      headers: { cookie: `oauthState=${cookieValue(first, 'oauthState')}` },
+    });
+    expect(callback.status).toBe(400);
+    expect(await callback.json()).toEqual({ error: 'Token exchange failed (400)' });
+    expect(cookieValue(callback, 'token')).toBeUndefined();
+  });
+
+  test('rejects an ID token carrying another nonce', async () => {
+    const callback = await signIn({ sub: 'idp-user-1', email: 'owner@example.com', email_verified: true, nonce: 'replayed' });
+    expect(callback.status).toBe(400);
+    expect(await callback.json()).toEqual({ error: 'ID token nonce mismatch' });
+  });
+});
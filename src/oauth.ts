@@ -0,0 +1,265 @@
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import { base64UrlEncode } from './webauthn.js';
+
+// OAuth 2.0 / OpenID Connect providers for social login.
+// Every endpoint is a plain field so tests can point a provider at a local stand-in IdP.
+
+export type OAuthTokens = {
+  access_token: string;
+  token_type?: string;
+  id_token?: string;
+  expires_in?: number;
+  scope?: string;
+};
+
+// Identity the provider vouches for
+export type OAuthProfile = {
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+};
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface OAuthProvider {
+  /** Route segment, e.g. "google" for /api/oauth/google/start */
+  id: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint?: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  /** OpenID Connect providers: ID tokens are validated against this issuer and key set */
+  oidc?: {
+    issuer: string;
+    jwksUri: string;
+  };
+  /** Extra query parameters for the authorization URL */
+  authorizationParams?: Record<string, string>;
+  /** Custom profile lookup for non-OIDC providers */
+  getProfile?: (tokens: OAuthTokens, fetchFn: FetchLike) => Promise<OAuthProfile>;
+}
+
+type ProviderCredentials = {
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+};
+
+/**
+ * Google sign-in (OpenID Connect)
+ */
+export function googleProvider(
+  options: ProviderCredentials & Partial<Omit<OAuthProvider, 'clientId' | 'clientSecret' | 'scopes'>>
+): OAuthProvider {
+  return {
+    id: 'google',
+    authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenEndpoint: 'https://oauth2.googleapis.com/token',
+    userinfoEndpoint: 'https://openidconnect.googleapis.com/v1/userinfo',
+    oidc: {
+      issuer: 'https://accounts.google.com',
+      jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+    },
+    ...options,
+    scopes: options.scopes || ['openid', 'email', 'profile'],
+  };
+}
+
+/**
+ * GitHub sign-in (plain OAuth 2.0; the email comes from the REST API)
+ */
+export function githubProvider(
+  options: ProviderCredentials & Partial<Omit<OAuthProvider, 'clientId' | 'clientSecret' | 'scopes'>> & { apiBaseUrl?: string }
+): OAuthProvider {
+  const { apiBaseUrl = 'https://api.github.com', ...rest } = options;
+  return {
+    id: 'github',
+    authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+    tokenEndpoint: 'https://github.com/login/oauth/access_token',
+    ...rest,
+    scopes: options.scopes || ['read:user', 'user:email'],
+    getProfile: options.getProfile || (async (tokens, fetchFn) => {
+      const headers = {
+        Authorization: `Bearer ${tokens.access_token}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'userdo',
+      };
+      const userRes = await fetchFn(`${apiBaseUrl}/user`, { headers });
+      if (!userRes.ok) throw new Error('Failed to load GitHub profile');
+      const user = await userRes.json() as { id: number; name?: string };
+
+      const emailsRes = await fetchFn(`${apiBaseUrl}/user/emails`, { headers });
+      if (!emailsRes.ok) throw new Error('Failed to load GitHub emails');
+      const emails = await emailsRes.json() as Array<{ email: string; primary: boolean; verified: boolean }>;
+      const primary = emails.find(e => e.primary && e.verified);
+      if (!primary) throw new Error('GitHub account has no verified primary email');
+
+      return { subject: String(user.id), email: primary.email, emailVerified: true, name: user.name };
+    }),
+  };
+}
+
+/**
+ * Any OpenID Connect provider with explicitly configured endpoints
+ */
+export function oidcProvider(
+  options: ProviderCredentials & {
+    id: string;
+    issuer: string;
+    authorizationEndpoint: string;
+    tokenEndpoint: string;
+    jwksUri: string;
+    userinfoEndpoint?: string;
+    authorizationParams?: Record<string, string>;
+  }
+): OAuthProvider {
+  const { issuer, jwksUri, ...rest } = options;
+  return {
+    ...rest,
+    scopes: options.scopes || ['openid', 'email', 'profile'],
+    oidc: { issuer, jwksUri },
+  };
+}
+
+/**
+ * Generate a PKCE verifier and its S256 challenge
+ * @returns Verifier (keep secret) and challenge (sent to the provider)
+ */
+export async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+/**
+ * Random value for the state and nonce parameters
+ */
+export function generateOAuthState(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+/**
+ * Build the URL that sends the user to the provider
+ */
+export function buildAuthorizationUrl(
+  provider: OAuthProvider,
+  { redirectUri, state, codeChallenge, nonce }:
+    { redirectUri: string; state: string; codeChallenge: string; nonce?: string }
+): string {
+  const url = new URL(provider.authorizationEndpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (nonce && provider.oidc) url.searchParams.set('nonce', nonce);
+  for (const [key, value] of Object.entries(provider.authorizationParams || {})) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code for tokens
+ */
+export async function exchangeAuthorizationCode(
+  provider: OAuthProvider,
+  { code, redirectUri, codeVerifier }: { code: string; redirectUri: string; codeVerifier: string },
+  fetchFn: FetchLike = fetch
+): Promise<OAuthTokens> {
+  const res = await fetchFn(provider.tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+    }).toString(),
+  });
+  if (!res.ok) throw new Error(`Token exchange failed (${res.status})`);
+  const tokens = await res.json() as OAuthTokens & { error?: string };
+  if (tokens.error || !tokens.access_token) throw new Error(`Token exchange failed: ${tokens.error || 'no access token'}`);
+  return tokens;
+}
+
+/**
+ * Validate an OpenID Connect ID token: signature (RS256/ES256 via JWKS), issuer, audience, expiry and nonce
+ */
+export async function verifyIdToken(
+  provider: OAuthProvider,
+  idToken: string,
+  { nonce }: { nonce?: string } = {},
+  fetchFn: FetchLike = fetch
+): Promise<Record<string, any>> {
+  if (!provider.oidc) throw new Error(`Provider ${provider.id} is not an OpenID Connect provider`);
+
+  const { header } = jwt.decode(idToken) as { header: { alg?: string; kid?: string } };
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') throw new Error('Unsupported ID token algorithm');
+
+  const jwksRes = await fetchFn(provider.oidc.jwksUri);
+  if (!jwksRes.ok) throw new Error('Failed to load provider keys');
+  const { keys } = await jwksRes.json() as { keys: Array<JsonWebKey & { kid: string }> };
+  const candidates = keys.filter(k => !header.kid || k.kid === header.kid);
+
+  let claims: Record<string, any> | undefined;
+  for (const key of candidates) {
+    const verified = await jwt.verify(idToken, key, { algorithm: header.alg, clockTolerance: 60 }).catch(() => undefined);
+    if (verified) {
+      claims = verified.payload as Record<string, any>;
+      break;
+    }
+  }
+  if (!claims) throw new Error('Invalid ID token signature');
+
+  if (claims.iss !== provider.oidc.issuer) throw new Error('ID token issuer mismatch');
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audience.includes(provider.clientId)) throw new Error('ID token audience mismatch');
+  if (!claims.exp) throw new Error('ID token has no expiry');
+  if (nonce && claims.nonce !== nonce) throw new Error('ID token nonce mismatch');
+
+  return claims;
+}
+
+/**
+ * Resolve the verified profile for a completed authorization
+ */
+export async function fetchOAuthProfile(
+  provider: OAuthProvider,
+  tokens: OAuthTokens,
+  { nonce }: { nonce?: string } = {},
+  fetchFn: FetchLike = fetch
+): Promise<OAuthProfile> {
+  if (provider.getProfile) return provider.getProfile(tokens, fetchFn);
+
+  let claims: Record<string, any>;
+  if (provider.oidc && tokens.id_token) {
+    claims = await verifyIdToken(provider, tokens.id_token, { nonce }, fetchFn);
+  } else if (provider.userinfoEndpoint) {
+    const res = await fetchFn(provider.userinfoEndpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+    });
+    if (!res.ok) throw new Error('Failed to load user info');
+    claims = await res.json() as Record<string, any>;
+  } else {
+    throw new Error(`Provider ${provider.id} returned no identity`);
+  }
+
+  if (!claims.sub || !claims.email) throw new Error('Provider did not return an email');
+  return {
+    subject: String(claims.sub),
+    email: String(claims.email).toLowerCase(),
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: claims.name,
+  };
+}
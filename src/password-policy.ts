@@ -0,0 +1,212 @@
+import { DEFAULT_USER_DO_CONFIG } from './config.js';
+import { COMMON_PASSWORD_HASHES } from './common-passwords.js';
+
+// Rules for new passwords. Everything runs inside the Worker: the common password
+// list ships as truncated SHA-1 hashes and is searched by 5-digit prefix, the same
+// k-anonymity shape as the Pwned Passwords range API.
+
+export type PasswordPolicy = {
+  minLength: number;
+  maxLength: number;
+  /** How many of lowercase, uppercase, digits and symbols must appear (0-4) */
+  requiredCharacterClasses: number;
+  /** Refuse passwords containing the account's email or its local part */
+  disallowEmail: boolean;
+  /** Lowest acceptable strength score (0-4) */
+  minStrength: number;
+  /** Refuse passwords on the bundled common/breached list */
+  rejectCommon: boolean;
+};
+
+export type PasswordPolicyFailureCode =
+  | 'too_short'
+  | 'too_long'
+  | 'character_classes'
+  | 'contains_email'
+  | 'too_weak'
+  | 'common';
+
+export type PasswordPolicyFailure = {
+  code: PasswordPolicyFailureCode;
+  message: string;
+};
+
+export type PasswordCheckResult = {
+  ok: boolean;
+  /** 0 (trivially guessable) to 4 (very strong) */
+  strength: number;
+  failures: PasswordPolicyFailure[];
+};
+
+const POLICY_ERROR_PREFIX = 'Password does not meet requirements: ';
+
+/**
+ * Thrown when a new password breaks the policy. Durable Object RPC only keeps the
+ * message, so the failures are part of it - read them back with parsePasswordPolicyError().
+ */
+export class PasswordPolicyError extends Error {
+  readonly failures: PasswordPolicyFailure[];
+
+  constructor(failures: PasswordPolicyFailure[]) {
+    super(POLICY_ERROR_PREFIX + JSON.stringify(failures));
+    this.name = 'PasswordPolicyError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * Recover the failures from a password policy error message
+ * @param message - Error message, possibly from across an RPC boundary
+ * @returns Failures, or null if the message isn't a password policy error
+ */
+export function parsePasswordPolicyError(message: string | undefined): PasswordPolicyFailure[] | null {
+  if (!message?.startsWith(POLICY_ERROR_PREFIX)) return null;
+  try {
+    return JSON.parse(message.slice(POLICY_ERROR_PREFIX.length));
+  } catch {
+    return null;
+  }
+}
+
+const COMMON_HASHES = COMMON_PASSWORD_HASHES.trim().split(/\s+/);
+const RANGE_PREFIX_LENGTH = 5;
+
+/**
+ * Suffixes of the bundled hashes starting with a prefix, like the Pwned Passwords range API
+ * @param prefix - First 5 hex digits of the password's SHA-1, uppercase
+ * @returns Remaining hex digits of each matching entry
+ */
+export function commonPasswordRange(prefix: string): string[] {
+  // Binary search for the first entry at or after the prefix
+  let low = 0;
+  let high = COMMON_HASHES.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (COMMON_HASHES[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  const suffixes: string[] = [];
+  for (let i = low; i < COMMON_HASHES.length && COMMON_HASHES[i].startsWith(prefix); i++) {
+    suffixes.push(COMMON_HASHES[i].slice(prefix.length));
+  }
+  return suffixes;
+}
+
+async function sha1Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/**
+ * Check a password against the bundled list of common and breached passwords
+ * @param password - Candidate password; its lowercase form is checked too
+ * @returns true if either form is on the list
+ */
+export async function isCommonPassword(password: string): Promise<boolean> {
+  for (const candidate of new Set([password, password.toLowerCase()])) {
+    const hash = await sha1Hex(candidate);
+    const prefix = hash.slice(0, RANGE_PREFIX_LENGTH);
+    const suffix = hash.slice(RANGE_PREFIX_LENGTH);
+    if (commonPasswordRange(prefix).some(entry => suffix.startsWith(entry))) return true;
+  }
+  return false;
+}
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]', "asdfghjkl;'", 'zxcvbnm,./'];
+
+// Each class with the number of characters it adds to a brute-force search
+const CHARACTER_CLASSES = [
+  { pattern: /[a-z]/, size: 26 },
+  { pattern: /[A-Z]/, size: 26 },
+  { pattern: /[0-9]/, size: 10 },
+  { pattern: /[^a-zA-Z0-9]/, size: 33 },
+];
+
+function characterClasses(password: string) {
+  return CHARACTER_CLASSES.filter(({ pattern }) => pattern.test(password));
+}
+
+// Repeats, alphabetic/numeric runs and keyboard neighbours add almost nothing
+function isPredictableAfter(prev: string, char: string): boolean {
+  const a = prev.toLowerCase();
+  const b = char.toLowerCase();
+  if (a === b || Math.abs(a.charCodeAt(0) - b.charCodeAt(0)) === 1) return true;
+  return KEYBOARD_ROWS.some(row => {
+    const i = row.indexOf(a);
+    return i !== -1 && (row[i - 1] === b || row[i + 1] === b);
+  });
+}
+
+/**
+ * Estimate how hard a password is to guess
+ * @param password - Candidate password
+ * @returns Score from 0 (under 10^3 guesses) to 4 (over 10^10 guesses)
+ */
+export function passwordStrength(password: string): number {
+  const pool = characterClasses(password).reduce((sum, { size }) => sum + size, 0);
+
+  const chars = Array.from(password);
+  let bits = 0;
+  chars.forEach((char, i) => {
+    bits += i > 0 && isPredictableAfter(chars[i - 1], char) ? 1 : Math.log2(pool);
+  });
+
+  const guessesLog10 = bits * Math.log10(2);
+  if (guessesLog10 < 3) return 0;
+  if (guessesLog10 < 6) return 1;
+  if (guessesLog10 < 8) return 2;
+  if (guessesLog10 < 10) return 3;
+  return 4;
+}
+
+/**
+ * Check a new password against a policy
+ * @param password - Candidate password
+ * @param policy - Rules to apply (default: the UserDO defaults)
+ * @param context - Account details the password must not contain
+ * @returns Strength score and every rule the password breaks
+ */
+export async function checkPassword(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_USER_DO_CONFIG.password,
+  context: { email?: string } = {}
+): Promise<PasswordCheckResult> {
+  const failures: PasswordPolicyFailure[] = [];
+  const length = Array.from(password).length;
+
+  if (length < policy.minLength) {
+    failures.push({ code: 'too_short', message: `Must be at least ${policy.minLength} characters` });
+  }
+  if (length > policy.maxLength) {
+    failures.push({ code: 'too_long', message: `Must be at most ${policy.maxLength} characters` });
+  }
+  if (characterClasses(password).length < policy.requiredCharacterClasses) {
+    failures.push({
+      code: 'character_classes',
+      message: `Must mix at least ${policy.requiredCharacterClasses} of lowercase, uppercase, digits and symbols`,
+    });
+  }
+
+  if (policy.disallowEmail && context.email) {
+    const email = context.email.toLowerCase();
+    const localPart = email.split('@')[0];
+    const lower = password.toLowerCase();
+    // Very short local parts would match by accident
+    if (lower.includes(email) || (localPart.length >= 3 && lower.includes(localPart))) {
+      failures.push({ code: 'contains_email', message: 'Must not contain your email address' });
+    }
+  }
+
+  // Skip hashing inputs that are already too long to accept
+  const common = length <= policy.maxLength && policy.rejectCommon && await isCommonPassword(password);
+  if (common) {
+    failures.push({ code: 'common', message: 'This password is too common or has appeared in a data breach' });
+  }
+
+  const strength = common ? 0 : passwordStrength(password);
+  if (!common && strength < policy.minStrength) {
+    failures.push({ code: 'too_weak', message: 'Too easy to guess - try a longer password or a passphrase' });
+  }
+
+  return { ok: failures.length === 0, strength, failures };
+}
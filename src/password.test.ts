@@ -0,0 +1,164 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import {
+  PASSWORD_HASH_PRESETS,
+  detectPasswordHashFormat,
+  formatFirebaseScryptHash,
+  hashPassword,
+  needsRehash,
+  parsePasswordHash,
+  verifyPassword,
+  type PasswordHashFormat,
+} from './password';
+
+// Reference hashes produced by other implementations
+const PBKDF2_SHA256 = // RFC 7914 section 11: P="passwd", S="salt", c=1, dkLen=64
+  '$pbkdf2-sha256$i=1$c2FsdA$VawEblbjCJ/sFpHCJUS2BflBhSFt3gRl5oudV8INrLxJypzM8Xm2RZkWZLOdd+8xfHG4RbHjC9UJESBB06GXgw';
+const SCRYPT = // RFC 7914 section 12: P="password", S="NaCl", N=1024, r=8, p=16
+  '$scrypt$ln=10,r=8,p=16$TmFDbA$/bq+HJ00cgB4VucZDQHp/nxq18vII3gw53N2Y0s3MWIurzDZLiKjiG/xCSedmDDaxyevuUqD7m2DYMvfoswGQA';
+const ARGON2ID = // hash-wasm: "password", salt "somesalt", the argon2id preset
+  '$argon2id$v=19$m=19456,t=2,p=1$c29tZXNhbHQ$PL01amPyeUuxG7H0vIr5X+qHkZvWnHmGBGXFYvh8z2E';
+const ARGON2I = // phc-winner-argon2 README: "password", salt "somesalt", t=2, m=16 (64 MiB), p=4
+  '$argon2i$v=19$m=65536,t=2,p=4$c29tZXNhbHQ$RdescudvJCsgt3ub+b+dWRWJTmaaJObG';
+const DJANGO_PBKDF2_DEFAULT = 'pbkdf2_sha256$600000$seasalt$OAXyhAQ/4ZDA9V5RMExt3C1OwQdUpLZ99vm1McFlLRA=';
+const LEGACY = { hash: 'BntVcIVSNzZWqY+K7GAIM11MKFiMCticdD5ntVU+LE0=', salt: 'bGVnYWN5LXNhbHQtMTIzNA==' }; // "hunter2"
+
+describe('PHC hashes', () => {
+  test('verifies the RFC 7914 PBKDF2-SHA256 vector', async () => {
+    expect(await verifyPassword('passwd', PBKDF2_SHA256)).toBe(true);
+    expect(await verifyPassword('passwd!', PBKDF2_SHA256)).toBe(false);
+  });
+
+  test('verifies the RFC 7914 scrypt vector', async () => {
+    expect(await verifyPassword('password', SCRYPT)).toBe(true);
+    expect(await verifyPassword('Password', SCRYPT)).toBe(false);
+  });
+
+  test('verifies an argon2id reference hash', async () => {
+    expect(await verifyPassword('password', ARGON2ID)).toBe(true);
+    expect(await verifyPassword('passwort', ARGON2ID)).toBe(false);
+  });
+
+  test('verifies the argon2i reference vector', async () => {
+    expect(await verifyPassword('password', ARGON2I)).toBe(true);
+  });
+
+  test('parses algorithm, version and parameters', () => {
+    const parsed = parsePasswordHash(ARGON2ID);
+    expect(parsed).toMatchObject({ algorithm: 'argon2id', version: 19, params: PASSWORD_HASH_PRESETS.argon2id.params });
+    expect(new TextDecoder().decode(parsed.salt)).toBe('somesalt');
+    expect(parsed.hash.length).toBe(32);
+    expect(() => parsePasswordHash('$scrypt$ln=x$c2FsdA$aGFzaA')).toThrow('Invalid password hash format');
+  });
+
+  test.each([
+    ['pbkdf2-sha256', { i: 1000 }],
+    ['pbkdf2-sha512', { i: 1000 }],
+    ['scrypt', { ln: 10, r: 8, p: 1 }],
+    ['argon2id', { m: 1024, t: 1, p: 1 }],
+  ] as const)('%s round-trips', async (algorithm, params) => {
+    const stored = await hashPassword('correct horse', { algorithm, params });
+    expect(stored.startsWith(`$${algorithm}$`)).toBe(true);
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('correct horsf', stored)).toBe(false);
+  });
+
+  test('hashes are salted', async () => {
+    const options = { algorithm: 'pbkdf2-sha256', params: { i: 1000 } };
+    expect(await hashPassword('same', options)).not.toBe(await hashPassword('same', options));
+  });
+
+  test('rejects unknown algorithms', async () => {
+    await expect(hashPassword('x', { algorithm: 'md5', params: {} })).rejects.toThrow('Unsupported password hash algorithm');
+    expect(await verifyPassword('x', '$md5$i=1$c2FsdA$aGFzaA')).toBe(false);
+  });
+});
+
+test('verifies pre-versioning hashes with their separate salt', async () => {
+  expect(await verifyPassword('hunter2', LEGACY.hash, LEGACY.salt)).toBe(true);
+  expect(await verifyPassword('hunter3', LEGACY.hash, LEGACY.salt)).toBe(false);
+  expect(await verifyPassword('hunter2', LEGACY.hash)).toBe(false);
+});
+
+describe('needsRehash', () => {
+  test('is false for the configured algorithm and parameters', async () => {
+    const options = { algorithm: 'scrypt', params: { ln: 10, r: 8, p: 1 } };
+    expect(needsRehash(await hashPassword('x', options), options)).toBe(false);
+  });
+
+  test('is true when the algorithm, parameters or length change', () => {
+    expect(needsRehash(PBKDF2_SHA256, { algorithm: 'pbkdf2-sha256', params: { i: 1 }, hashLength: 64 })).toBe(false);
+    expect(needsRehash(PBKDF2_SHA256, { algorithm: 'pbkdf2-sha256', params: { i: 1 } })).toBe(true);
+    expect(needsRehash(PBKDF2_SHA256, { algorithm: 'pbkdf2-sha256', params: { i: 2 }, hashLength: 64 })).toBe(true);
+    expect(needsRehash(PBKDF2_SHA256, PASSWORD_HASH_PRESETS.argon2id)).toBe(true);
+    expect(needsRehash(ARGON2ID, PASSWORD_HASH_PRESETS.argon2id)).toBe(false);
+  });
+
+  test('is true for legacy and imported formats', () => {
+    expect(needsRehash(LEGACY.hash)).toBe(true);
+    expect(needsRehash('pbkdf2_sha256$10000$seasalt$CWWFdHOWwPnki7HvkcqN9iA2T3KLW1cf2uZ5kvArtVY=')).toBe(true);
+  });
+});
+
+describe('imported formats', () => {
+  const vectors: [PasswordHashFormat, string, string][] = [
+    // OpenBSD / jBCrypt test vectors
+    ['bcrypt', '', '$2a$06$DCq7YPn5Rq63x1Lad4cll.TV4S6ytwfsfvkgY8jIucDrjc8deX1s.'],
+    ['bcrypt', 'abc', '$2a$06$If6bvum7DFjUnE9p2uDeDu0YHzrHM6tf.iqN8.yx.jNN1ILEf7h0i'],
+    // Django's hasher tests (make_password('lètmein', 'seasalt', ...))
+    ['django-pbkdf2', 'lètmein', 'pbkdf2_sha256$10000$seasalt$CWWFdHOWwPnki7HvkcqN9iA2T3KLW1cf2uZ5kvArtVY='],
+    ['django-pbkdf2', 'lètmein', 'pbkdf2_sha1$10000$seasalt$oAfF6vgs95ncksAhGXOWf4Okq7o='],
+    // Django 5.0's default iteration count, from hashlib.pbkdf2_hmac as Django computes it
+    ['django-pbkdf2', 'lètmein', DJANGO_PBKDF2_DEFAULT],
+    // Django BCryptSHA256PasswordHasher: bcrypt over the hex SHA-256 digest
+    ['django-bcrypt', 'lètmein', 'bcrypt_sha256$$2b$04$abcdefghijklmnopqrstuulyx/yrfLnuLCi6gwFG5mrkJjuQKpL6S'],
+    // Django Argon2PasswordHasher: "argon2" followed by the argon2 encoded hash
+    ['django-argon2', 'password', `argon2${ARGON2I}`],
+    // Django's default argon2 parameters (hash-wasm reference)
+    ['django-argon2', 'lètmein', 'argon2$argon2id$v=19$m=102400,t=2,p=8$c2Vhc2FsdHNlYXNhbHRzZWFzYWx0cw$/WjGtKuoAGl+Mz+JRw/yqPaL87BVNqi+Aol/r45eQgo'],
+  ];
+
+  test.each(vectors)('%s verifies %p', async (format, password, stored) => {
+    expect(detectPasswordHashFormat(stored)).toBe(format);
+    expect(await verifyPassword(password, stored)).toBe(true);
+    expect(await verifyPassword(`${password}x`, stored)).toBe(false);
+  });
+
+  test('verifies PBKDF2 counts that WebCrypto in Workers refuses', async () => {
+    // Workers throw NotSupportedError for PBKDF2 above 100,000 iterations
+    const deriveBits = crypto.subtle.deriveBits.bind(crypto.subtle);
+    const spy = spyOn(crypto.subtle, 'deriveBits').mockImplementation((algorithm, key, length) => {
+      if ((algorithm as Pbkdf2Params).iterations > 100_000) {
+        return Promise.reject(new DOMException('Pbkdf2 failed: iteration counts above 100000 are not supported', 'NotSupportedError'));
+      }
+      return deriveBits(algorithm, key, length);
+    });
+    try {
+      expect(await verifyPassword('lètmein', DJANGO_PBKDF2_DEFAULT)).toBe(true);
+      expect(await verifyPassword('letmein', DJANGO_PBKDF2_DEFAULT)).toBe(false);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  test('firebase-scrypt verifies the reference vector from firebase/scrypt', async () => {
+    const stored = formatFirebaseScryptHash(
+      'lSrfV15cpx95/sZS2W9c9Kp6i/LVgQNDNC/qzrCnh1SAyZvqmZqAjTdn3aoItz+VHjoZilo78198JAdRuid5lQ==',
+      '42xEC+ixf3L2lw==',
+      {
+        signerKey: 'jxspr8Ki0RYycVU8zykbdLGjFQ3McFUH0uiiTvC8pVMXAn210wjLNmdZJzxUECKbm0QsEmYUSDzZvpjeJ9WmXA==',
+        saltSeparator: 'Bw==',
+        rounds: 8,
+        memCost: 14,
+      }
+    );
+    expect(detectPasswordHashFormat(stored)).toBe('firebase-scrypt');
+    expect(await verifyPassword('user1password', stored)).toBe(true);
+    expect(await verifyPassword('user2password', stored)).toBe(false);
+  });
+
+  test('unrecognised strings are not verifiable', async () => {
+    expect(detectPasswordHashFormat('$1$saltsalt$hash')).toBeNull();
+    expect(detectPasswordHashFormat('sha1$salt$hash')).toBeNull();
+    expect(await verifyPassword('x', 'sha1$salt$hash')).toBe(false);
+  });
+});
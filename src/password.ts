@@ -0,0 +1,327 @@
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2.js';
+import { sha256, sha512 } from '@noble/hashes/sha2.js';
+import { sha1 } from '@noble/hashes/legacy.js';
+import { argon2idAsync, argon2iAsync, argon2dAsync } from '@noble/hashes/argon2.js';
+import bcrypt from 'bcryptjs';
+
+// Versioned password hashes in PHC string format:
+//   $pbkdf2-sha256$i=100000$<salt>$<hash>
+//   $scrypt$ln=15,r=8,p=1$<salt>$<hash>
+//   $argon2id$v=19$m=19456,t=2,p=1$<salt>$<hash>
+// Salt and hash are unpadded base64. The algorithm and parameters travel with
+// every hash, so settings can change without breaking existing accounts.
+// Hashes imported from other systems (bcrypt, Django, Firebase) are verified in
+// their own format and replaced with a native one on the next login.
+
+export interface PasswordHasher {
+  /** PHC algorithm id, e.g. "scrypt" */
+  id: string;
+  /** Version segment written before the parameters (argon2 uses 19) */
+  version?: number;
+  derive(
+    password: string, salt: Uint8Array, params: Record<string, number>, length: number, version?: number
+  ): Promise<Uint8Array>;
+}
+
+export type PasswordHashOptions = {
+  algorithm: string;
+  params: Record<string, number>;
+  /** Salt length in bytes (default: 16) */
+  saltLength?: number;
+  /** Derived hash length in bytes (default: 32) */
+  hashLength?: number;
+};
+
+export type ParsedPasswordHash = {
+  algorithm: string;
+  version?: number;
+  params: Record<string, number>;
+  salt: Uint8Array;
+  hash: Uint8Array;
+};
+
+// Cloudflare Workers reject PBKDF2 above 100k iterations, so this is the default.
+// Higher counts (e.g. imported Django hashes) run in pure JS, which is several
+// times slower; use scrypt or argon2id for more work.
+export const DEFAULT_PASSWORD_HASH: PasswordHashOptions = {
+  algorithm: 'pbkdf2-sha256',
+  params: { i: 100_000 },
+};
+
+// Pure JS (WASM can't be compiled at runtime in Workers); budget CPU time accordingly
+export const PASSWORD_HASH_PRESETS = {
+  pbkdf2: DEFAULT_PASSWORD_HASH,
+  scrypt: { algorithm: 'scrypt', params: { ln: 15, r: 8, p: 1 } },
+  argon2id: { algorithm: 'argon2id', params: { m: 19456, t: 2, p: 1 } },
+} satisfies Record<string, PasswordHashOptions>;
+
+const DEFAULT_SALT_LENGTH = 16;
+const DEFAULT_HASH_LENGTH = 32;
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/=+$/, '');
+}
+
+function fromBase64(value: string): Uint8Array {
+  const padded = value + '='.repeat((4 - (value.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+// Most iterations WebCrypto's PBKDF2 accepts in Cloudflare Workers
+const WEBCRYPTO_PBKDF2_MAX_ITERATIONS = 100_000;
+const NOBLE_HASHES = { 'SHA-1': sha1, 'SHA-256': sha256, 'SHA-512': sha512 };
+
+function pbkdf2Hasher(id: string, hash: 'SHA-1' | 'SHA-256' | 'SHA-512'): PasswordHasher {
+  return {
+    id,
+    async derive(password, salt, params, length) {
+      if (params.i > WEBCRYPTO_PBKDF2_MAX_ITERATIONS) {
+        return pbkdf2Async(NOBLE_HASHES[hash], password, salt, { c: params.i, dkLen: length });
+      }
+      const key = await crypto.subtle.importKey('raw', encoder.encode(password), { name: 'PBKDF2' }, false, ['deriveBits']);
+      const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: params.i, hash }, key, length * 8);
+      return new Uint8Array(bits);
+    },
+  };
+}
+
+const hashers = new Map<string, PasswordHasher>();
+
+/**
+ * Add (or replace) a password hashing algorithm
+ * @param hasher - Hasher keyed by its PHC id
+ */
+export function registerPasswordHasher(hasher: PasswordHasher): void {
+  hashers.set(hasher.id, hasher);
+}
+
+registerPasswordHasher(pbkdf2Hasher('pbkdf2-sha256', 'SHA-256'));
+registerPasswordHasher(pbkdf2Hasher('pbkdf2-sha512', 'SHA-512'));
+registerPasswordHasher({
+  id: 'scrypt',
+  derive: (password, salt, { ln, r, p }, length) =>
+    scryptAsync(password, salt, { N: 2 ** ln, r, p, dkLen: length }),
+});
+for (const [id, argon2] of [['argon2id', argon2idAsync], ['argon2i', argon2iAsync], ['argon2d', argon2dAsync]] as const) {
+  registerPasswordHasher({
+    id,
+    version: 19,
+    // v=16 hashes still turn up in imports
+    derive: (password, salt, { m, t, p }, length, version = 19) =>
+      argon2(password, salt, { m, t, p, dkLen: length, version: version === 16 ? 0x10 : 0x13 }),
+  });
+}
+
+function getHasher(algorithm: string): PasswordHasher {
+  const hasher = hashers.get(algorithm);
+  if (!hasher) throw new Error(`Unsupported password hash algorithm: ${algorithm}`);
+  return hasher;
+}
+
+/**
+ * Compare two byte arrays without short-circuiting on the first difference
+ * @returns True if the arrays are equal
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+/**
+ * Split a PHC hash string into its parts
+ * @param stored - Hash string as stored on the user
+ * @returns Algorithm, parameters, salt and hash bytes
+ */
+export function parsePasswordHash(stored: string): ParsedPasswordHash {
+  const parts = stored.split('$');
+  if (parts[0] !== '' || parts.length < 5 || parts.length > 6) throw new Error('Invalid password hash format');
+
+  const [, algorithm, ...rest] = parts;
+  let version: number | undefined;
+  if (rest.length === 4) {
+    const match = rest.shift()!.match(/^v=(\d+)$/);
+    if (!match) throw new Error('Invalid password hash format');
+    version = Number(match[1]);
+  }
+  const [paramString, salt, hash] = rest;
+  const params: Record<string, number> = {};
+  for (const pair of paramString.split(',')) {
+    const [key, value] = pair.split('=');
+    if (!key || value === undefined || !/^\d+$/.test(value)) throw new Error('Invalid password hash format');
+    params[key] = Number(value);
+  }
+
+  return { algorithm, version, params, salt: fromBase64(salt), hash: fromBase64(hash) };
+}
+
+function formatPasswordHash({ algorithm, version, params, salt, hash }: ParsedPasswordHash): string {
+  const paramString = Object.entries(params).map(([key, value]) => `${key}=${value}`).join(',');
+  const versionSegment = version !== undefined ? `$v=${version}` : '';
+  return `$${algorithm}${versionSegment}$${paramString}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+/**
+ * Hash a password with a fresh random salt
+ * @param password - Plain text password
+ * @param options - Algorithm and parameters (default: PBKDF2-SHA256, 100k iterations)
+ * @returns PHC hash string
+ */
+export async function hashPassword(
+  password: string,
+  options: PasswordHashOptions = DEFAULT_PASSWORD_HASH
+): Promise<string> {
+  const hasher = getHasher(options.algorithm);
+  const salt = crypto.getRandomValues(new Uint8Array(options.saltLength || DEFAULT_SALT_LENGTH));
+  const hash = await hasher.derive(password, salt, options.params, options.hashLength || DEFAULT_HASH_LENGTH);
+  return formatPasswordHash({ algorithm: hasher.id, version: hasher.version, params: options.params, salt, hash });
+}
+
+/**
+ * Check a password against a stored hash
+ * @param password - Plain text password
+ * @param stored - PHC hash string, an imported format, or a bare base64 hash from before versioning
+ * @param legacySalt - Base64 salt stored next to pre-versioning hashes
+ * @returns True if the password matches
+ */
+export async function verifyPassword(password: string, stored: string, legacySalt?: string): Promise<boolean> {
+  const format = detectPasswordHashFormat(stored);
+  if (format === 'bcrypt' || format === 'django-bcrypt') return verifyBcrypt(password, stored);
+  if (format === 'django-pbkdf2') return verifyDjangoPbkdf2(password, stored);
+  if (format === 'firebase-scrypt') return verifyFirebaseScrypt(password, stored);
+  if (format === 'django-argon2') return verifyPassword(password, stored.slice('argon2'.length));
+
+  if (format === 'legacy') {
+    // Pre-versioning format: PBKDF2-SHA256, 100k iterations, separate salt
+    if (!legacySalt) return false;
+    const hash = await getHasher('pbkdf2-sha256').derive(password, fromBase64(legacySalt), { i: 100_000 }, 32);
+    return timingSafeEqual(hash, fromBase64(stored));
+  }
+  if (format !== 'phc') return false;
+
+  const parsed = parsePasswordHash(stored);
+  const hash = await getHasher(parsed.algorithm).derive(password, parsed.salt, parsed.params, parsed.hash.length, parsed.version);
+  return timingSafeEqual(hash, parsed.hash);
+}
+
+/**
+ * Whether a stored hash should be replaced after the next successful login
+ * @param stored - Hash string as stored on the user
+ * @param options - Currently configured algorithm and parameters
+ * @returns True if the algorithm, parameters or length differ from the configuration
+ */
+export function needsRehash(stored: string, options: PasswordHashOptions = DEFAULT_PASSWORD_HASH): boolean {
+  if (!stored.startsWith('$')) return true;
+  try {
+    const parsed = parsePasswordHash(stored);
+    if (parsed.algorithm !== options.algorithm) return true;
+    if (parsed.hash.length !== (options.hashLength || DEFAULT_HASH_LENGTH)) return true;
+    const keys = new Set([...Object.keys(parsed.params), ...Object.keys(options.params)]);
+    return [...keys].some(key => parsed.params[key] !== options.params[key]);
+  } catch {
+    return true;
+  }
+}
+
+// --- Imported formats ---
+
+export type PasswordHashFormat =
+  | 'phc'             // this library, or a PHC string from elsewhere (e.g. argon2)
+  | 'legacy'          // bare base64 PBKDF2 from before versioning
+  | 'bcrypt'          // $2a$ / $2b$ / $2y$ (Auth0, most Node and Ruby apps)
+  | 'django-pbkdf2'   // pbkdf2_sha256$<iterations>$<salt>$<hash>, pbkdf2_sha1$...
+  | 'django-bcrypt'   // bcrypt_sha256$$2b$..., bcrypt$$2b$...
+  | 'django-argon2'   // argon2$argon2id$v=19$...
+  | 'firebase-scrypt';
+
+// Firebase's project-wide settings from the console's "password hash parameters"
+export type FirebaseHashConfig = {
+  /** base64_signer_key */
+  signerKey: string;
+  /** base64_salt_separator */
+  saltSeparator: string;
+  rounds: number;
+  memCost: number;
+};
+
+/**
+ * Identify the format of a stored or imported hash
+ * @param stored - Hash string
+ * @returns Format name, or null if it isn't one this module can verify
+ */
+export function detectPasswordHashFormat(stored: string): PasswordHashFormat | null {
+  if (/^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/.test(stored)) return 'bcrypt';
+  if (/^pbkdf2_sha(1|256)\$\d+\$[^$]+\$[^$]+$/.test(stored)) return 'django-pbkdf2';
+  if (/^bcrypt(_sha256)?\$\$2[aby]\$/.test(stored)) return 'django-bcrypt';
+  if (stored.startsWith('argon2$argon2')) return 'django-argon2';
+  if (stored.startsWith('$firebase-scrypt$')) return 'firebase-scrypt';
+  if (stored.startsWith('$')) {
+    try {
+      return hashers.has(parsePasswordHash(stored).algorithm) ? 'phc' : null;
+    } catch {
+      return null;
+    }
+  }
+  return /^[A-Za-z0-9+/]+=*$/.test(stored) ? 'legacy' : null;
+}
+
+async function verifyBcrypt(password: string, stored: string): Promise<boolean> {
+  if (stored.startsWith('bcrypt_sha256$')) {
+    // Django pre-hashes so passwords over bcrypt's 72 byte limit still count in full
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(password));
+    password = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  // Django prefixes the bcrypt string with "bcrypt$" or "bcrypt_sha256$"
+  const bcryptHash = stored.startsWith('$2') ? stored : stored.slice(stored.indexOf('$$') + 1);
+  return bcrypt.compare(password, bcryptHash);
+}
+
+async function verifyDjangoPbkdf2(password: string, stored: string): Promise<boolean> {
+  const [algorithm, iterations, salt, expected] = stored.split('$');
+  const hasher = pbkdf2Hasher(algorithm, algorithm === 'pbkdf2_sha1' ? 'SHA-1' : 'SHA-256');
+  const expectedBytes = fromBase64(expected);
+  const hash = await hasher.derive(password, encoder.encode(salt), { i: Number(iterations) }, expectedBytes.length);
+  return timingSafeEqual(hash, expectedBytes);
+}
+
+/**
+ * Store a user's Firebase Auth hash so it can be verified later. Firebase only
+ * exports the per-user hash and salt; the project settings are kept alongside.
+ * @param hash - passwordHash from the Firebase export (base64)
+ * @param salt - salt from the Firebase export (base64)
+ * @param config - Project hash parameters
+ * @returns Hash string for UserDO storage
+ */
+export function formatFirebaseScryptHash(hash: string, salt: string, config: FirebaseHashConfig): string {
+  const b64 = (value: string) => toBase64(fromBase64(value.replace(/-/g, '+').replace(/_/g, '/')));
+  return `$firebase-scrypt$ln=${config.memCost},r=${config.rounds}$${b64(config.saltSeparator)}$${b64(config.signerKey)}$${b64(salt)}$${b64(hash)}`;
+}
+
+// Firebase's modified scrypt: the derived key encrypts the project signer key
+// (AES-256-CTR, zero IV) and the ciphertext is the stored hash
+async function verifyFirebaseScrypt(password: string, stored: string): Promise<boolean> {
+  const [, , paramString, saltSeparator, signerKey, salt, expected] = stored.split('$');
+  const params = Object.fromEntries(paramString.split(',').map(pair => {
+    const [key, value] = pair.split('=');
+    return [key, Number(value)];
+  }));
+
+  const separator = fromBase64(saltSeparator);
+  const saltBytes = fromBase64(salt);
+  const fullSalt = new Uint8Array(saltBytes.length + separator.length);
+  fullSalt.set(saltBytes);
+  fullSalt.set(separator, saltBytes.length);
+
+  const derived = await scryptAsync(password, fullSalt, { N: 2 ** params.ln, r: params.r, p: 1, dkLen: 64 });
+  const key = await crypto.subtle.importKey('raw', derived.slice(0, 32), { name: 'AES-CTR' }, false, ['encrypt']);
+  const cipher = await crypto.subtle.encrypt(
+    { name: 'AES-CTR', counter: new Uint8Array(16), length: 128 }, key, fromBase64(signerKey)
+  );
+  return timingSafeEqual(new Uint8Array(cipher), fromBase64(expected));
+}
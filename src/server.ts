@@ -1,24 +1,124 @@
-export { UserDO, getUserDO, hashEmailForId, migrateUserEmail, type Env } from './UserDO.js';
+export { UserDO, WEBSOCKET_AUDIENCE_HEADER, getUserDO, resolveUserDO, oauthIdentityId, hashEmailForId, migrateUserEmail, type Env, type PublicUser, type AdminUserSummary, type AccountStatus, type Impersonator, type SecurityEvent, type AuthResult, type MfaChallenge, type EmailVerificationRequired, type PasskeyInfo, type LinkedIdentity, type ClientContext, type SessionInfo, type ImportedUser, type AccountExportRecord } from './UserDO.js';
 export { UserDODatabase } from './database/index.js';
 export { GenericTable, type Table } from './database/table.js';
 export { GenericQuery } from './database/query.js';
 export { UserDOClient } from './client.js';
 
+// Email delivery
+export { ConsoleMailer, MemoryMailer, defaultTemplates, escapeHtml, type Mailer, type MailMessage, type MailTemplates } from './mailer.js';
+
+// Rate limiting
+export {
+  RateLimiterDO,
+  RateLimitError,
+  DEFAULT_USER_RATE_LIMITS,
+  DEFAULT_IP_RATE_LIMITS,
+  type UserRateLimits,
+  type IpRateLimits,
+  type RateLimitRule,
+  type BackoffRule
+} from './limiter.js';
+
+// Handles
+export {
+  HandleRegistryDO,
+  getHandleRegistry,
+  normalizeHandle,
+  foldHandle,
+  handleProblem,
+  RESERVED_HANDLES,
+  type HandleRecord
+} from './handles.js';
+
+// Admin user directory
+export {
+  UserDirectoryDO,
+  getUserDirectory,
+  type DirectoryEntry,
+  type DirectorySearch,
+  type DirectoryPage
+} from './directory.js';
+
+// Configuration
+export {
+  defineUserDOConfig,
+  DEFAULT_USER_DO_CONFIG,
+  type UserDOConfig,
+  type UserDOConfigOverrides
+} from './config.js';
+
+// Password hashing
+export {
+  hashPassword,
+  verifyPassword,
+  needsRehash,
+  registerPasswordHasher,
+  detectPasswordHashFormat,
+  formatFirebaseScryptHash,
+  DEFAULT_PASSWORD_HASH,
+  PASSWORD_HASH_PRESETS,
+  type PasswordHasher,
+  type PasswordHashOptions,
+  type PasswordHashFormat,
+  type FirebaseHashConfig
+} from './password.js';
+
+// Password policy
+export {
+  checkPassword,
+  passwordStrength,
+  isCommonPassword,
+  parsePasswordPolicyError,
+  PasswordPolicyError,
+  type PasswordPolicy,
+  type PasswordPolicyFailure,
+  type PasswordPolicyFailureCode,
+  type PasswordCheckResult
+} from './password-policy.js';
+
+// Bulk import from other auth systems
+export { importUsers, type ImportUserRecord, type ImportOptions, type ImportUserResult } from './import.js';
+
+// Social login providers
+export {
+  googleProvider,
+  githubProvider,
+  oidcProvider,
+  type OAuthProvider,
+  type OAuthProfile,
+  type OAuthTokens
+} from './oauth.js';
+
+// TOTP utilities
+export { generateTotpSecret, verifyTotp, buildOtpauthUri } from './totp.js';
+
+// Signing keys
+export {
+  KeyRing,
+  getKeyRing,
+  generateSigningKey,
+  JWT_SECRET_KID,
+  type SigningKey,
+  type SigningAlgorithm
+} from './keys.js';
+
 // JWT utilities
 export {
   decodeJWT,
   verifyJWT,
+  verifyAccessToken,
   isTokenExpired,
   getEmailFromToken,
   signJWT,
   generateAccessToken,
   generateRefreshToken,
   generatePasswordResetToken,
-  type JwtPayload
+  type JwtPayload,
+  type VerifyJWTOptions
 } from './jwt-utils.js';
 
 // Worker exports
-export { userDOWorker, createUserDOWorker, createWebSocketHandler, getUserDOFromContext, broadcastToUser } from './worker.js';
-export { createAuthMiddleware } from './authMiddleware.js';
+export { userDOWorker, createUserDOWorker, type UserDOWorkerOptions, createWebSocketHandler, getUserDOFromContext, broadcastToUser } from './worker.js';
+export { createAuthMiddleware, requireVerifiedEmail, requireRole, refuseImpersonation, getClientContext, type AuthMiddlewareOptions } from './authMiddleware.js';
 export type { UserDOEndpoints, EndpointRequest, EndpointResponse, EndpointQuery } from './worker-types.js';
 export * from './worker-types.js';
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, mock, spyOn } from 'bun:test';
+import { Database } from 'bun:sqlite';
+
+// Helpers for tests that run Durable Objects in-process against in-memory storage.
+// Only the DurableObject base class comes from the Workers runtime, so importing
+// this module mocks it; import the worker or UserDO modules after it, dynamically.
+
+mock.module('cloudflare:workers', () => ({
+  DurableObject: class {
+    constructor(public ctx: unknown, public env: unknown) {}
+  },
+}));
+
+export type TestStorage = ReturnType<typeof createStorage>;
+
+export function createStorage() {
+  const data = new Map<string, unknown>();
+  const db = new Database(':memory:');
+  const storage = {
+    async get<T = unknown>(key: string | string[]): Promise<any> {
+      if (Array.isArray(key)) return new Map(key.filter(k => data.has(k)).map(k => [k, structuredClone(data.get(k))]));
+      return structuredClone(data.get(key)) as T | undefined;
+    },
+    async put(key: string | Record<string, unknown>, value?: unknown) {
+      const entries = typeof key === 'string' ? { [key]: value } : key;
+      for (const [k, v] of Object.entries(entries)) data.set(k, structuredClone(v));
+    },
+    async delete(key: string | string[]) {
+      const keys = Array.isArray(key) ? key : [key];
+      const count = keys.filter(k => data.delete(k)).length;
+      return Array.isArray(key) ? count : count > 0;
+    },
+    async list({ prefix = '', startAfter, limit = Infinity }: { prefix?: string; startAfter?: string; limit?: number } = {}) {
+      const keys = [...data.keys()].sort().filter(k => k.startsWith(prefix) && (startAfter === undefined || k > startAfter));
+      return new Map(keys.slice(0, limit).map(k => [k, structuredClone(data.get(k))]));
+    },
+    async deleteAll() {
+      data.clear();
+    },
+    async getAlarm() {
+      return null;
+    },
+    async setAlarm() {},
+    async deleteAlarm() {},
+    // One caller at a time in tests, so running the body directly is enough
+    async transaction<R>(fn: (txn: any) => Promise<R>): Promise<R> {
+      return fn(storage);
+    },
+    transactionSync<R>(fn: () => R): R {
+      return fn();
+    },
+    sql: {
+      exec(query: string, ...params: any[]) {
+        const statement = db.prepare(query);
+        const rows = statement.columnNames.length ? statement.all(...params) as Record<string, unknown>[] : (statement.run(...params), []);
+        return { toArray: () => rows, one: () => rows[0], [Symbol.iterator]: () => rows[Symbol.iterator]() };
+      },
+    },
+  };
+  return storage;
+}
+
+// DurableObjectNamespace stand-in: one instance per name, called directly instead of over RPC
+export function createNamespace<T>(env: Record<string, unknown>, DurableObjectClass: new (state: any, env: any) => T) {
+  const instances = new Map<string, { instance: T; storage: TestStorage }>();
+  const idFromString = (hex: string) => ({ toString: () => hex, equals: (other: { toString(): string }) => other.toString() === hex });
+  const idFromName = (name: string) => idFromString(Buffer.from(name).toString('hex'));
+  const open = (id: { toString(): string }) => {
+    const key = id.toString();
+    if (!instances.has(key)) {
+      const storage = createStorage();
+      const state = {
+        id,
+        storage,
+        getWebSockets: () => [],
+        acceptWebSocket: () => {},
+        blockConcurrencyWhile: <R>(fn: () => Promise<R>) => fn(),
+        waitUntil: () => {},
+      };
+      instances.set(key, { instance: new DurableObjectClass(state, env), storage });
+    }
+    return instances.get(key)!;
+  };
+  return {
+    idFromName,
+    idFromString,
+    get: (id: { toString(): string }) => open(id).instance,
+    /** Storage behind the instance for a name, for asserting on what was persisted */
+    storage: (name: string) => open(idFromName(name)).storage,
+  };
+}
+
+// Keeps the console quiet for the tests in the current file
+export function silenceConsole() {
+  const spies: ReturnType<typeof spyOn>[] = [];
+  beforeAll(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      spies.push(spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+  afterAll(() => {
+    for (const spy of spies) spy.mockRestore();
+  });
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { base32Decode, base32Encode, buildOtpauthUri, generateHotp, getTotpStep, verifyTotp } from './totp';
+
+// Shared secret from RFC 4226 appendix D and RFC 6238 appendix B: ASCII "12345678901234567890"
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+describe('base32', () => {
+  test('encodes the RFC secret', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  test('round-trips arbitrary bytes', () => {
+    const bytes = Uint8Array.from({ length: 37 }, (_, i) => (i * 73) & 0xff);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  test('decodes lowercase, padded and spaced input', () => {
+    expect(base32Decode('gezd gnbv====')).toEqual(new TextEncoder().encode('12345'));
+  });
+});
+
+describe('generateHotp', () => {
+  // RFC 4226 appendix D
+  const vectors = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+
+  test.each(vectors.map((code, counter) => [counter, code]))('counter %d is %s', async (counter, code) => {
+    expect(await generateHotp(RFC_SECRET, counter as number)).toBe(code as string);
+  });
+});
+
+describe('TOTP', () => {
+  // RFC 6238 appendix B (SHA-1), last six digits of the eight digit values
+  const vectors: [number, string][] = [
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ];
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test.each(vectors)('T=%d is %s', async (seconds, code) => {
+    expect(await generateHotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(code);
+  });
+
+  test('verifyTotp accepts the current code and one step of drift', async () => {
+    setSystemTime(new Date(1111111111 * 1000));
+    expect(await verifyTotp(RFC_SECRET, '050471')).toBe(getTotpStep(1111111111 * 1000));
+    expect(await verifyTotp(RFC_SECRET, '081804')).toBe(getTotpStep(1111111109 * 1000));
+    expect(await verifyTotp(RFC_SECRET, '005924')).toBeNull();
+  });
+
+  test('verifyTotp rejects codes at or before the last used step', async () => {
+    setSystemTime(new Date(1111111111 * 1000));
+    const step = await verifyTotp(RFC_SECRET, '050471');
+    expect(step).not.toBeNull();
+    expect(await verifyTotp(RFC_SECRET, '050471', step!)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, '081804', step!)).toBeNull();
+  });
+
+  test('verifyTotp rejects malformed codes', async () => {
+    setSystemTime(new Date(1111111111 * 1000));
+    expect(await verifyTotp(RFC_SECRET, '05047')).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, '05047a')).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, '050 471')).not.toBeNull();
+  });
+});
+
+test('buildOtpauthUri', () => {
+  const uri = buildOtpauthUri(RFC_SECRET, 'alice@example.com', 'Acme');
+  const [label, query] = uri.split('?');
+  expect(label).toBe('otpauth://totp/Acme%3Aalice%40example.com');
+  const params = new URLSearchParams(query);
+  expect(params.get('secret')).toBe(RFC_SECRET);
+  expect(params.get('issuer')).toBe('Acme');
+  expect(params.get('digits')).toBe('6');
+});
@@ -0,0 +1,145 @@
+// RFC 6238 TOTP helpers built on WebCrypto (HMAC-SHA1, 6 digits, 30s step)
+
+import { timingSafeEqual } from './password.js';
+
+const encoder = new TextEncoder();
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_CONFIG = {
+  digits: 6,
+  stepSeconds: 30,
+  window: 1, // accept one step of clock drift either side
+  secretLength: 20,
+};
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32
+ * @param bytes - Bytes to encode
+ * @returns Base32 string
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding and spaces ignored)
+ * @param input - Base32 string
+ * @returns Decoded bytes
+ */
+export function base32Decode(input: string): Uint8Array {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(output);
+}
+
+/**
+ * Generate a random base32 TOTP secret
+ * @returns Base32 encoded secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(TOTP_CONFIG.secretLength)));
+}
+
+/**
+ * Compute the HOTP value for a counter (RFC 4226)
+ * @param secret - Base32 encoded secret
+ * @param counter - Moving factor
+ * @returns Zero-padded numeric code
+ */
+export async function generateHotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']
+  );
+  const counterBytes = new Uint8Array(8);
+  const view = new DataView(counterBytes.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counterBytes));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary =
+    ((mac[offset] & 0x7f) << 24) |
+    (mac[offset + 1] << 16) |
+    (mac[offset + 2] << 8) |
+    mac[offset + 3];
+  return (binary % 10 ** TOTP_CONFIG.digits).toString().padStart(TOTP_CONFIG.digits, '0');
+}
+
+/**
+ * Get the current TOTP time step
+ * @param now - Timestamp in milliseconds (default: Date.now())
+ * @returns Time step counter
+ */
+export function getTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_CONFIG.stepSeconds);
+}
+
+/**
+ * Verify a TOTP code within the allowed drift window
+ * @param secret - Base32 encoded secret
+ * @param code - Code supplied by the user
+ * @param lastUsedStep - Last step that was accepted, codes at or before it are rejected (replay protection)
+ * @returns The matched time step, or null if the code is invalid
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number
+): Promise<number | null> {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_CONFIG.digits) return null;
+
+  const current = getTotpStep();
+  for (let drift = -TOTP_CONFIG.window; drift <= TOTP_CONFIG.window; drift++) {
+    const step = current + drift;
+    if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+    if (timingSafeEqual(encoder.encode(await generateHotp(secret, step)), encoder.encode(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build an otpauth:// URI for authenticator apps
+ * @param secret - Base32 encoded secret
+ * @param accountName - Account label, usually the email
+ * @param issuer - Service name shown in the authenticator
+ * @returns otpauth URI (render it as a QR code)
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_CONFIG.digits),
+    period: String(TOTP_CONFIG.stepSeconds),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
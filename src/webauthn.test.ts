@@ -0,0 +1,237 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  COSE_ALG_ES256,
+  COSE_ALG_RS256,
+  base64UrlDecode,
+  base64UrlEncode,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type RelyingParty,
+  type StoredCredential,
+} from './webauthn';
+
+const rp: RelyingParty = { rpId: 'example.com', origins: ['https://example.com'] };
+const encoder = new TextEncoder();
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const sha256 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+// Minimal CBOR encoder for building authenticator output
+function cbor(value: unknown): Uint8Array {
+  const head = (major: number, length: number) => {
+    if (length < 24) return Uint8Array.of((major << 5) | length);
+    if (length < 0x100) return Uint8Array.of((major << 5) | 24, length);
+    if (length < 0x10000) return Uint8Array.of((major << 5) | 25, length >> 8, length & 0xff);
+    throw new Error('Too long');
+  };
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value);
+  if (typeof value === 'string') {
+    const bytes = encoder.encode(value);
+    return concat(head(3, bytes.length), bytes);
+  }
+  if (value instanceof Uint8Array) return concat(head(2, value.length), value);
+  if (Array.isArray(value)) return concat(head(4, value.length), ...value.map(cbor));
+  if (value instanceof Map) {
+    return concat(head(5, value.size), ...[...value].flatMap(([k, v]) => [cbor(k), cbor(v)]));
+  }
+  throw new Error('Unsupported value');
+}
+
+// WebCrypto produces raw r || s; authenticators send DER
+function rawToDer(raw: Uint8Array): Uint8Array {
+  const integer = (bytes: Uint8Array) => {
+    let i = 0;
+    while (i < bytes.length - 1 && bytes[i] === 0) i++;
+    let value = bytes.slice(i);
+    if (value[0] & 0x80) value = concat(Uint8Array.of(0), value);
+    return concat(Uint8Array.of(0x02, value.length), value);
+  };
+  const body = concat(integer(raw.slice(0, 32)), integer(raw.slice(32)));
+  return concat(Uint8Array.of(0x30, body.length), body);
+}
+
+// A software authenticator holding a single credential
+async function createAuthenticator(alg = COSE_ALG_ES256) {
+  const params = alg === COSE_ALG_ES256
+    ? { name: 'ECDSA', namedCurve: 'P-256' }
+    : { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: Uint8Array.of(1, 0, 1), hash: 'SHA-256' };
+  const keys = await crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+  const credentialId = crypto.getRandomValues(new Uint8Array(16));
+  const aaguid = Uint8Array.from({ length: 16 }, (_, i) => i);
+
+  const coseKey = alg === COSE_ALG_ES256
+    ? new Map<number, unknown>([[1, 2], [3, alg], [-1, 1], [-2, base64UrlDecode(jwk.x!)], [-3, base64UrlDecode(jwk.y!)]])
+    : new Map<number, unknown>([[1, 3], [3, alg], [-1, base64UrlDecode(jwk.n!)], [-2, base64UrlDecode(jwk.e!)]]);
+
+  const sign = async (data: Uint8Array) => {
+    if (alg === COSE_ALG_RS256) {
+      return new Uint8Array(await crypto.subtle.sign({ name: 'RSASSA-PKCS1-v1_5' }, keys.privateKey, data));
+    }
+    return rawToDer(new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keys.privateKey, data)));
+  };
+
+  const authData = async (flags: number, signCount: number, attested?: Uint8Array, rpId = rp.rpId) => {
+    const counter = new Uint8Array(4);
+    new DataView(counter.buffer).setUint32(0, signCount);
+    return concat(await sha256(encoder.encode(rpId)), Uint8Array.of(flags), counter, attested || new Uint8Array());
+  };
+
+  const clientData = (type: string, challenge: string, origin = rp.origins[0]) =>
+    encoder.encode(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+
+  return {
+    credentialId: base64UrlEncode(credentialId),
+
+    async register(challenge: string, options: { fmt?: 'none' | 'packed'; origin?: string; rpId?: string } = {}) {
+      const attested = concat(
+        aaguid, Uint8Array.of(0, credentialId.length), credentialId, cbor(coseKey)
+      );
+      const authDataBytes = await authData(0x45, 0, attested, options.rpId); // UP | UV | AT
+      const clientDataJSON = clientData('webauthn.create', challenge, options.origin);
+      const attStmt = new Map<string, unknown>();
+      if (options.fmt === 'packed') {
+        attStmt.set('alg', alg);
+        attStmt.set('sig', await sign(concat(authDataBytes, await sha256(clientDataJSON))));
+      }
+      const attestationObject = cbor(new Map<string, unknown>([
+        ['fmt', options.fmt || 'none'], ['attStmt', attStmt], ['authData', authDataBytes],
+      ]));
+      return {
+        id: base64UrlEncode(credentialId),
+        rawId: base64UrlEncode(credentialId),
+        type: 'public-key' as const,
+        response: {
+          clientDataJSON: base64UrlEncode(clientDataJSON),
+          attestationObject: base64UrlEncode(attestationObject),
+          transports: ['internal'],
+        },
+      };
+    },
+
+    async authenticate(challenge: string, signCount: number, options: { flags?: number } = {}) {
+      const authDataBytes = await authData(options.flags ?? 0x05, signCount);
+      const clientDataJSON = clientData('webauthn.get', challenge);
+      return {
+        id: base64UrlEncode(credentialId),
+        rawId: base64UrlEncode(credentialId),
+        type: 'public-key' as const,
+        response: {
+          clientDataJSON: base64UrlEncode(clientDataJSON),
+          authenticatorData: base64UrlEncode(authDataBytes),
+          signature: base64UrlEncode(await sign(concat(authDataBytes, await sha256(clientDataJSON)))),
+          userHandle: null,
+        },
+      };
+    },
+  };
+}
+
+const challenge = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+test('base64url round-trips and accepts standard base64', () => {
+  const bytes = Uint8Array.of(0xfb, 0xff, 0xbf, 0x00, 0x01);
+  expect(base64UrlEncode(bytes)).toBe('-_-_AAE');
+  expect(base64UrlDecode('-_-_AAE')).toEqual(bytes);
+  expect(base64UrlDecode('+/+/AAE=')).toEqual(bytes);
+});
+
+describe('verifyRegistrationResponse', () => {
+  test('parses a "none" attestation into a stored credential', async () => {
+    const authenticator = await createAuthenticator();
+    const expected = challenge();
+    const credential = await verifyRegistrationResponse(await authenticator.register(expected), expected, rp);
+
+    expect(credential.id).toBe(authenticator.credentialId);
+    expect(credential.alg).toBe(COSE_ALG_ES256);
+    expect(credential.publicKey).toMatchObject({ kty: 'EC', crv: 'P-256' });
+    expect(credential.signCount).toBe(0);
+    expect(credential.aaguid).toBe('00010203-0405-0607-0809-0a0b0c0d0e0f');
+    expect(credential.transports).toEqual(['internal']);
+  });
+
+  test('verifies packed self attestation', async () => {
+    const authenticator = await createAuthenticator();
+    const expected = challenge();
+    const credential = await verifyRegistrationResponse(await authenticator.register(expected, { fmt: 'packed' }), expected, rp);
+    expect(credential.id).toBe(authenticator.credentialId);
+  });
+
+  test('accepts RS256 credentials', async () => {
+    const authenticator = await createAuthenticator(COSE_ALG_RS256);
+    const expected = challenge();
+    const credential = await verifyRegistrationResponse(await authenticator.register(expected, { fmt: 'packed' }), expected, rp);
+    expect(credential.alg).toBe(COSE_ALG_RS256);
+    expect(credential.publicKey).toMatchObject({ kty: 'RSA', e: 'AQAB' });
+  });
+
+  test('rejects a tampered packed attestation signature', async () => {
+    const authenticator = await createAuthenticator();
+    const expected = challenge();
+    const response = await authenticator.register(expected, { fmt: 'packed' });
+    const attestation = base64UrlDecode(response.response.attestationObject);
+    attestation[attestation.length - 1] ^= 0x01; // last byte of authData (inside the COSE key)
+    response.response.attestationObject = base64UrlEncode(attestation);
+    await expect(verifyRegistrationResponse(response, expected, rp)).rejects.toThrow();
+  });
+
+  test('rejects a different challenge, origin or RP ID', async () => {
+    const authenticator = await createAuthenticator();
+    const expected = challenge();
+    await expect(verifyRegistrationResponse(await authenticator.register(challenge()), expected, rp))
+      .rejects.toThrow('Challenge mismatch');
+    await expect(verifyRegistrationResponse(await authenticator.register(expected, { origin: 'https://evil.test' }), expected, rp))
+      .rejects.toThrow('Unexpected origin');
+    await expect(verifyRegistrationResponse(await authenticator.register(expected, { rpId: 'evil.test' }), expected, rp))
+      .rejects.toThrow('RP ID mismatch');
+  });
+});
+
+describe('verifyAuthenticationResponse', () => {
+  const register = async () => {
+    const authenticator = await createAuthenticator();
+    const expected = challenge();
+    const credential: StoredCredential = await verifyRegistrationResponse(await authenticator.register(expected), expected, rp);
+    return { authenticator, credential };
+  };
+
+  test('verifies a DER encoded ES256 assertion and returns the new counter', async () => {
+    const { authenticator, credential } = await register();
+    const expected = challenge();
+    const result = await verifyAuthenticationResponse(await authenticator.authenticate(expected, 1), expected, credential, rp);
+    expect(result.signCount).toBe(1);
+  });
+
+  test('rejects a signature from another key', async () => {
+    const { credential } = await register();
+    const other = await createAuthenticator();
+    const expected = challenge();
+    await expect(verifyAuthenticationResponse(await other.authenticate(expected, 1), expected, credential, rp))
+      .rejects.toThrow('Invalid signature');
+  });
+
+  test('rejects a counter that does not increase', async () => {
+    const { authenticator, credential } = await register();
+    const expected = challenge();
+    const stored = { ...credential, signCount: 5 };
+    await expect(verifyAuthenticationResponse(await authenticator.authenticate(expected, 5), expected, stored, rp))
+      .rejects.toThrow('Authenticator counter did not increase');
+  });
+
+  test('requires user verification when the RP asks for it', async () => {
+    const { authenticator, credential } = await register();
+    const expected = challenge();
+    const response = await authenticator.authenticate(expected, 1, { flags: 0x01 });
+    await expect(verifyAuthenticationResponse(response, expected, credential, { ...rp, requireUserVerification: true }))
+      .rejects.toThrow('User verification required');
+  });
+});
@@ -0,0 +1,427 @@
+// WebAuthn (passkey) ceremony verification built on WebCrypto.
+// Supports ES256 and RS256 credentials with "none" and "packed" attestation.
+
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+
+export const WEBAUTHN_CONFIG = {
+  challengeLength: 32,
+  challengeTtl: 5 * 60_000, // 5 minutes
+  timeout: 60_000,
+};
+
+// Credential as stored on the user
+export type StoredCredential = {
+  id: string; // base64url credential ID
+  publicKey: JsonWebKey;
+  alg: number;
+  signCount: number;
+  transports?: string[];
+  aaguid?: string;
+};
+
+// JSON-serialised PublicKeyCredential as produced by the browser client
+export type RegistrationResponseJSON = {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+};
+
+export type AuthenticationResponseJSON = {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+};
+
+export type RelyingParty = {
+  rpId: string;
+  origins: string[];
+  requireUserVerification?: boolean;
+};
+
+// --- Encoding helpers ---
+
+/**
+ * Encode bytes as unpadded base64url
+ * @param bytes - Bytes to encode
+ * @returns base64url string
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url (or base64) string
+ * @param input - base64url string
+ * @returns Decoded bytes
+ */
+export function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+/**
+ * Generate a random challenge for a ceremony
+ * @returns base64url challenge
+ */
+export function generateChallenge(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(WEBAUTHN_CONFIG.challengeLength)));
+}
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+// --- CBOR (the subset used by WebAuthn) ---
+
+function decodeCbor(bytes: Uint8Array, offset = 0): { value: any; offset: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const initial = bytes[offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = bytes[offset];
+    offset += 1;
+  } else if (info === 25) {
+    length = view.getUint16(offset);
+    offset += 2;
+  } else if (info === 26) {
+    length = view.getUint32(offset);
+    offset += 4;
+  } else if (info === 27) {
+    length = Number(view.getBigUint64(offset));
+    offset += 8;
+  } else {
+    throw new Error('Unsupported CBOR encoding');
+  }
+
+  switch (major) {
+    case 0: // unsigned int
+      return { value: length, offset };
+    case 1: // negative int
+      return { value: -1 - length, offset };
+    case 2: // byte string
+      return { value: bytes.slice(offset, offset + length), offset: offset + length };
+    case 3: // text string
+      return { value: new TextDecoder().decode(bytes.subarray(offset, offset + length)), offset: offset + length };
+    case 4: { // array
+      const items: any[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(bytes, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: { // map
+      const map = new Map<any, any>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(bytes, offset);
+        const val = decodeCbor(bytes, key.offset);
+        map.set(key.value, val.value);
+        offset = val.offset;
+      }
+      return { value: map, offset };
+    }
+    case 6: // tag - ignore and return the tagged item
+      return decodeCbor(bytes, offset);
+    case 7:
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22 || info === 23) return { value: null, offset };
+      throw new Error('Unsupported CBOR simple value');
+    default:
+      throw new Error('Invalid CBOR');
+  }
+}
+
+// --- Authenticator data ---
+
+type AuthenticatorData = {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Uint8Array;
+    publicKey: Map<number, any>;
+  };
+};
+
+function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < 37) throw new Error('Authenticator data too short');
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const flags = data[32];
+  const result: AuthenticatorData = {
+    rpIdHash: data.slice(0, 32),
+    userPresent: !!(flags & 0x01),
+    userVerified: !!(flags & 0x04),
+    signCount: view.getUint32(33),
+  };
+
+  if (flags & 0x40) {
+    const aaguidBytes = data.slice(37, 53);
+    const credentialIdLength = view.getUint16(53);
+    const credentialId = data.slice(55, 55 + credentialIdLength);
+    const { value: publicKey } = decodeCbor(data, 55 + credentialIdLength);
+    const hex = Array.from(aaguidBytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    result.attestedCredential = {
+      aaguid: `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`,
+      credentialId,
+      publicKey,
+    };
+  }
+
+  return result;
+}
+
+// --- Keys and signatures ---
+
+function coseToJwk(cose: Map<number, any>): { jwk: JsonWebKey; alg: number } {
+  const kty = cose.get(1);
+  const alg = cose.get(3);
+
+  if (kty === 2 && alg === COSE_ALG_ES256) {
+    if (cose.get(-1) !== 1) throw new Error('Unsupported EC curve');
+    return {
+      alg,
+      jwk: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: base64UrlEncode(cose.get(-2)),
+        y: base64UrlEncode(cose.get(-3)),
+        ext: true,
+      },
+    };
+  }
+
+  if (kty === 3 && alg === COSE_ALG_RS256) {
+    return {
+      alg,
+      jwk: {
+        kty: 'RSA',
+        alg: 'RS256',
+        n: base64UrlEncode(cose.get(-1)),
+        e: base64UrlEncode(cose.get(-2)),
+        ext: true,
+      },
+    };
+  }
+
+  throw new Error(`Unsupported credential algorithm: ${alg}`);
+}
+
+const importParams = (alg: number) => {
+  if (alg === COSE_ALG_ES256) return { name: 'ECDSA', namedCurve: 'P-256' };
+  if (alg === COSE_ALG_RS256) return { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+  throw new Error(`Unsupported algorithm: ${alg}`);
+};
+
+const verifyParams = (alg: number) =>
+  alg === COSE_ALG_ES256 ? { name: 'ECDSA', hash: 'SHA-256' } : { name: 'RSASSA-PKCS1-v1_5' };
+
+// WebAuthn ECDSA signatures are DER encoded; WebCrypto expects raw r || s
+function derToRawEcdsa(der: Uint8Array): Uint8Array {
+  if (der[0] !== 0x30) throw new Error('Invalid ECDSA signature');
+  let offset = 2;
+  const readInt = () => {
+    if (der[offset] !== 0x02) throw new Error('Invalid ECDSA signature');
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    while (value.length > 32 && value[0] === 0) value = value.slice(1);
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return padded;
+  };
+  return concatBytes(readInt(), readInt());
+}
+
+async function verifySignature(
+  key: CryptoKey, alg: number, signature: Uint8Array, data: Uint8Array
+): Promise<boolean> {
+  const sig = alg === COSE_ALG_ES256 ? derToRawEcdsa(signature) : signature;
+  return crypto.subtle.verify(verifyParams(alg), key, sig, data);
+}
+
+// Pull the SubjectPublicKeyInfo out of a DER X.509 certificate
+function extractSpki(cert: Uint8Array): Uint8Array {
+  const readTlv = (offset: number) => {
+    let length = cert[offset + 1];
+    let header = 2;
+    if (length & 0x80) {
+      const count = length & 0x7f;
+      length = 0;
+      for (let i = 0; i < count; i++) length = (length << 8) | cert[offset + 2 + i];
+      header += count;
+    }
+    return { tag: cert[offset], start: offset + header, end: offset + header + length, offset };
+  };
+
+  const certificate = readTlv(0);
+  const tbs = readTlv(certificate.start);
+  let field = readTlv(tbs.start);
+  if (field.tag === 0xa0) field = readTlv(field.end); // explicit version
+  // serial, signature, issuer, validity, subject, then subjectPublicKeyInfo
+  for (let i = 0; i < 5; i++) field = readTlv(field.end);
+  return cert.slice(field.offset, field.end);
+}
+
+// --- Client data ---
+
+async function checkClientData(
+  clientDataJSON: Uint8Array,
+  type: 'webauthn.create' | 'webauthn.get',
+  expectedChallenge: string,
+  origins: string[]
+): Promise<Uint8Array> {
+  const clientData = JSON.parse(new TextDecoder().decode(clientDataJSON));
+  if (clientData.type !== type) throw new Error('Unexpected ceremony type');
+  if (!bytesEqual(base64UrlDecode(clientData.challenge), base64UrlDecode(expectedChallenge))) {
+    throw new Error('Challenge mismatch');
+  }
+  if (!origins.includes(clientData.origin)) throw new Error(`Unexpected origin: ${clientData.origin}`);
+  return sha256(clientDataJSON);
+}
+
+async function checkAuthenticatorData(authData: AuthenticatorData, rp: RelyingParty): Promise<void> {
+  const expectedRpIdHash = await sha256(new TextEncoder().encode(rp.rpId));
+  if (!bytesEqual(authData.rpIdHash, expectedRpIdHash)) throw new Error('RP ID mismatch');
+  if (!authData.userPresent) throw new Error('User presence required');
+  if (rp.requireUserVerification && !authData.userVerified) throw new Error('User verification required');
+}
+
+// --- Ceremonies ---
+
+/**
+ * Verify a registration (attestation) response
+ * @param response - Credential JSON from navigator.credentials.create()
+ * @param expectedChallenge - Challenge issued for this ceremony
+ * @param rp - Relying party ID and allowed origins
+ * @returns The credential to store
+ */
+export async function verifyRegistrationResponse(
+  response: RegistrationResponseJSON,
+  expectedChallenge: string,
+  rp: RelyingParty
+): Promise<StoredCredential> {
+  const clientDataHash = await checkClientData(
+    base64UrlDecode(response.response.clientDataJSON), 'webauthn.create', expectedChallenge, rp.origins
+  );
+
+  const { value: attestation } = decodeCbor(base64UrlDecode(response.response.attestationObject));
+  const fmt: string = attestation.get('fmt');
+  const attStmt: Map<string, any> = attestation.get('attStmt');
+  const authDataBytes: Uint8Array = attestation.get('authData');
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  await checkAuthenticatorData(authData, rp);
+  if (!authData.attestedCredential) throw new Error('No credential in attestation');
+
+  const { jwk, alg } = coseToJwk(authData.attestedCredential.publicKey);
+  const credentialKey = await crypto.subtle.importKey('jwk', jwk, importParams(alg), true, ['verify']);
+
+  if (fmt === 'packed') {
+    const stmtAlg: number = attStmt.get('alg');
+    const sig: Uint8Array = attStmt.get('sig');
+    const x5c: Uint8Array[] | undefined = attStmt.get('x5c');
+    const signed = concatBytes(authDataBytes, clientDataHash);
+
+    // Attestation certificate chains are not checked against a trust store;
+    // we only confirm the statement was produced for this credential.
+    const attestationKey = x5c?.length
+      ? await crypto.subtle.importKey('spki', extractSpki(x5c[0]), importParams(stmtAlg), false, ['verify'])
+      : credentialKey;
+    if (!x5c?.length && stmtAlg !== alg) throw new Error('Attestation algorithm mismatch');
+    if (!await verifySignature(attestationKey, stmtAlg, sig, signed)) {
+      throw new Error('Invalid attestation signature');
+    }
+  } else if (fmt !== 'none') {
+    throw new Error(`Unsupported attestation format: ${fmt}`);
+  }
+
+  const credentialId = base64UrlEncode(authData.attestedCredential.credentialId);
+  if (credentialId !== response.rawId && credentialId !== response.id) {
+    throw new Error('Credential ID mismatch');
+  }
+
+  return {
+    id: credentialId,
+    publicKey: jwk,
+    alg,
+    signCount: authData.signCount,
+    transports: response.response.transports,
+    aaguid: authData.attestedCredential.aaguid,
+  };
+}
+
+/**
+ * Verify an authentication (assertion) response
+ * @param response - Credential JSON from navigator.credentials.get()
+ * @param expectedChallenge - Challenge issued for this ceremony
+ * @param credential - Stored credential matching response.id
+ * @param rp - Relying party ID and allowed origins
+ * @returns The new signature counter to store
+ */
+export async function verifyAuthenticationResponse(
+  response: AuthenticationResponseJSON,
+  expectedChallenge: string,
+  credential: StoredCredential,
+  rp: RelyingParty
+): Promise<{ signCount: number }> {
+  const clientDataHash = await checkClientData(
+    base64UrlDecode(response.response.clientDataJSON), 'webauthn.get', expectedChallenge, rp.origins
+  );
+
+  const authDataBytes = base64UrlDecode(response.response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  await checkAuthenticatorData(authData, rp);
+
+  const key = await crypto.subtle.importKey('jwk', credential.publicKey, importParams(credential.alg), false, ['verify']);
+  const valid = await verifySignature(
+    key, credential.alg, base64UrlDecode(response.response.signature), concatBytes(authDataBytes, clientDataHash)
+  );
+  if (!valid) throw new Error('Invalid signature');
+
+  // A counter that does not move forward suggests a cloned authenticator
+  if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+    throw new Error('Authenticator counter did not increase');
+  }
+
+  return { signCount: authData.signCount };
+}
@@ -1,14 +1,22 @@
 import { z } from 'zod';
+import { DEFAULT_USER_DO_CONFIG, type UserDOConfig } from './config.js';
 
-// Request/Response schemas for typed endpoints
+// Passwords are only length-capped here; UserDO applies the full policy and reports
+// every failed rule (see PasswordPolicyError)
+const passwordField = (policy: UserDOConfig['password'] = DEFAULT_USER_DO_CONFIG.password) =>
+  z.string().min(1).max(policy.maxLength);
+
+// Request/Response schemas for typed endpoints. Password limits follow the default
+// policy; createPasswordRequestSchemas() builds them for a custom one.
 export const SignupRequestSchema = z.object({
   email: z.string().email(),
-  password: z.string().min(8),
+  password: passwordField(),
 });
 
 export const LoginRequestSchema = z.object({
-  email: z.string().email(),
-  password: z.string().min(8),
+  // Email address, or the account's handle ("jane" or "@jane")
+  email: z.string().email().or(z.string().regex(/^@?[^@\s]+$/)),
+  password: passwordField(),
 });
 
 export const PasswordResetRequestSchema = z.object({
@@ -17,7 +25,122 @@ export const PasswordResetRequestSchema = z.object({
 
 export const PasswordResetConfirmSchema = z.object({
   resetToken: z.string(),
-  newPassword: z.string().min(8),
+  newPassword: passwordField(),
+});
+
+// The schemas that carry a password, under the given policy
+export function createPasswordRequestSchemas(policy: UserDOConfig['password']) {
+  return {
+    SignupRequestSchema: SignupRequestSchema.extend({ password: passwordField(policy) }),
+    LoginRequestSchema: LoginRequestSchema.extend({ password: passwordField(policy) }),
+    PasswordResetConfirmSchema: PasswordResetConfirmSchema.extend({ newPassword: passwordField(policy) }),
+  };
+}
+
+export const MfaVerifyRequestSchema = z.object({
+  code: z.string().regex(/^\d{6}$/),
+  mfaToken: z.string().optional(), // falls back to the mfaToken cookie
+});
+
+export const TotpCodeRequestSchema = z.object({
+  code: z.string().regex(/^\d{6}$/),
+});
+
+// Browser credentials are passed through as JSON; the UserDO verifies them
+const PasskeyCredentialSchema = z.object({
+  id: z.string(),
+  rawId: z.string(),
+  type: z.literal('public-key'),
+  response: z.record(z.unknown()),
+}).passthrough();
+
+export const PasskeyRegisterVerifyRequestSchema = z.object({
+  credential: PasskeyCredentialSchema,
+  name: z.string().max(64).optional(),
+});
+
+export const PasskeyLoginOptionsRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const PasskeyLoginVerifyRequestSchema = z.object({
+  email: z.string().email(),
+  credential: PasskeyCredentialSchema,
+});
+
+export const PasskeyRenameRequestSchema = z.object({
+  name: z.string().min(1).max(64),
+});
+
+export const VerifyEmailRequestSchema = z.object({
+  token: z.string(),
+});
+
+export const ResendVerificationRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const LoginCodeRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const LoginCodeVerifySchema = z.object({
+  email: z.string().email(),
+  code: z.string().regex(/^\d{6}$/),
+});
+
+export const RefreshRequestSchema = z.object({
+  refreshToken: z.string().optional(),
+});
+
+export const AddEmailRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const SetHandleRequestSchema = z.object({
+  handle: z.string().min(1),
+});
+
+export const ChangeEmailRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const DeleteAccountRequestSchema = z.object({
+  // Required for accounts that have a password
+  password: z.string().optional(),
+  // What happens to organizations the user owns (default: pass to the longest-standing admin)
+  organizations: z.enum(['transfer', 'delete']).optional(),
+});
+
+export const SetRolesRequestSchema = z.object({
+  roles: z.array(z.string().min(1)),
+});
+
+export const SuspendAccountRequestSchema = z.object({
+  // Kept on the account for other staff to see
+  reason: z.string().max(500).optional(),
+});
+
+export const ImpersonateRequestSchema = z.object({
+  // Written to the user's security log
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const ImportUsersRequestSchema = z.object({
+  users: z.array(z.object({
+    email: z.string(),
+    passwordHash: z.string().optional(),
+    passwordSalt: z.string().optional(),
+    emailVerified: z.boolean().optional(),
+    createdAt: z.string().optional(),
+  })),
+  // Project hash parameters from the Firebase console, for Firebase Auth exports
+  firebase: z.object({
+    signerKey: z.string(),
+    saltSeparator: z.string(),
+    rounds: z.number().int().positive(),
+    memCost: z.number().int().positive(),
+  }).optional(),
 });
 
 export const SetDataRequestSchema = z.object({
@@ -31,13 +154,149 @@ export const AuthResponseSchema = z.object({
     id: z.string(),
     email: z.string(),
     createdAt: z.string(),
+    emailVerified: z.boolean().optional(),
+    handle: z.string().optional(),
   }),
   token: z.string(),
   refreshToken: z.string(),
 });
 
+export const RefreshResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+export const EmailVerificationRequiredResponseSchema = z.object({
+  user: AuthResponseSchema.shape.user,
+  emailVerificationRequired: z.literal(true),
+});
+
+export const MfaChallengeResponseSchema = z.object({
+  mfaRequired: z.literal(true),
+  mfaToken: z.string(),
+});
+
+export const TotpEnrollResponseSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+});
+
+export const PasskeyInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  transports: z.array(z.string()).optional(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+});
+
+export const SessionInfoSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  userAgent: z.string().optional(),
+  ip: z.string().optional(),
+  country: z.string().optional(),
+  label: z.string().optional(),
+  current: z.boolean(),
+});
+
+export const LinkedIdentitySchema = z.object({
+  id: z.string(),
+  type: z.enum(['password', 'oauth', 'email']),
+  provider: z.string().optional(),
+  email: z.string().optional(),
+  linkedAt: z.string().optional(),
+});
+
+export const ImportReportSchema = z.object({
+  imported: z.number(),
+  skipped: z.number(),
+  failed: z.number(),
+  results: z.array(z.object({
+    email: z.string(),
+    status: z.enum(['imported', 'skipped', 'failed']),
+    format: z.string().optional(),
+    reason: z.string().optional(),
+  })),
+});
+
+export const AccountStatusSchema = z.enum(['active', 'suspended', 'pending_deletion']);
+
+export const DirectoryEntrySchema = z.object({
+  email: z.string(),
+  userId: z.string(),
+  handle: z.string().optional(),
+  createdAt: z.string(),
+  emailVerified: z.boolean(),
+  roles: z.array(z.string()),
+  status: AccountStatusSchema,
+  lastLoginAt: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+export const DirectoryPageSchema = z.object({
+  users: z.array(DirectoryEntrySchema),
+  // Matching accounts across all pages
+  total: z.number(),
+  // Pass as ?cursor= for the next page; null on the last one
+  nextCursor: z.string().nullable(),
+});
+
+export const AdminUserSummarySchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  handle: z.string().optional(),
+  createdAt: z.string(),
+  emailVerified: z.boolean(),
+  emailVerifiedAt: z.string().optional(),
+  roles: z.array(z.string()),
+  status: AccountStatusSchema,
+  statusReason: z.string().optional(),
+  statusChangedAt: z.string().optional(),
+  totpEnabled: z.boolean(),
+  passkeys: z.number(),
+  identities: z.array(LinkedIdentitySchema),
+  sessions: z.number(),
+  lastActiveAt: z.string().optional(),
+  ownedOrganizations: z.number(),
+  memberships: z.number(),
+});
+
+export const ImpersonatorSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+});
+
+export const ImpersonationResponseSchema = z.object({
+  // Access token with an act claim naming the staff member; send as Authorization: Bearer
+  token: z.string(),
+  expiresAt: z.string(),
+  user: AuthResponseSchema.shape.user,
+});
+
+export const SecurityEventSchema = z.object({
+  id: z.string(),
+  type: z.literal('impersonation'),
+  at: z.string(),
+  actor: ImpersonatorSchema,
+  reason: z.string().optional(),
+  ip: z.string().optional(),
+  userAgent: z.string().optional(),
+});
+
+export const DeleteAccountResponseSchema = z.object({
+  ok: z.literal(true),
+  // Ids of the organizations handed over and deleted
+  transferred: z.array(z.string()),
+  deleted: z.array(z.string()),
+});
+
 export const ErrorResponseSchema = z.object({
   error: z.string(),
+  // Seconds until a rate-limited request may be retried (also sent as Retry-After)
+  retryAfter: z.number().optional(),
+  // Every rule a rejected new password broke
+  passwordPolicy: z.array(z.object({ code: z.string(), message: z.string() })).optional(),
 });
 
 export const SuccessResponseSchema = z.object({
@@ -61,8 +320,41 @@ export type LoginRequest = z.infer<typeof LoginRequestSchema>;
 export type PasswordResetRequest = z.infer<typeof PasswordResetRequestSchema>;
 export type PasswordResetConfirm = z.infer<typeof PasswordResetConfirmSchema>;
 export type SetDataRequest = z.infer<typeof SetDataRequestSchema>;
+export type MfaVerifyRequest = z.infer<typeof MfaVerifyRequestSchema>;
+export type TotpCodeRequest = z.infer<typeof TotpCodeRequestSchema>;
+export type PasskeyRegisterVerifyRequest = z.infer<typeof PasskeyRegisterVerifyRequestSchema>;
+export type PasskeyLoginOptionsRequest = z.infer<typeof PasskeyLoginOptionsRequestSchema>;
+export type PasskeyLoginVerifyRequest = z.infer<typeof PasskeyLoginVerifyRequestSchema>;
+export type PasskeyRenameRequest = z.infer<typeof PasskeyRenameRequestSchema>;
+export type VerifyEmailRequest = z.infer<typeof VerifyEmailRequestSchema>;
+export type LoginCodeRequest = z.infer<typeof LoginCodeRequestSchema>;
+export type LoginCodeVerify = z.infer<typeof LoginCodeVerifySchema>;
+export type ResendVerificationRequest = z.infer<typeof ResendVerificationRequestSchema>;
+export type RefreshRequest = z.infer<typeof RefreshRequestSchema>;
+export type AddEmailRequest = z.infer<typeof AddEmailRequestSchema>;
+export type ImportUsersRequest = z.infer<typeof ImportUsersRequestSchema>;
+export type SetRolesRequest = z.infer<typeof SetRolesRequestSchema>;
+export type SuspendAccountRequest = z.infer<typeof SuspendAccountRequestSchema>;
+export type ImpersonateRequest = z.infer<typeof ImpersonateRequestSchema>;
+export type SetHandleRequest = z.infer<typeof SetHandleRequestSchema>;
+export type ChangeEmailRequest = z.infer<typeof ChangeEmailRequestSchema>;
+export type DeleteAccountRequest = z.infer<typeof DeleteAccountRequestSchema>;
 
 export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+export type RefreshResponse = z.infer<typeof RefreshResponseSchema>;
+export type MfaChallengeResponse = z.infer<typeof MfaChallengeResponseSchema>;
+export type EmailVerificationRequiredResponse = z.infer<typeof EmailVerificationRequiredResponseSchema>;
+export type TotpEnrollResponse = z.infer<typeof TotpEnrollResponseSchema>;
+export type PasskeyInfo = z.infer<typeof PasskeyInfoSchema>;
+export type SessionInfo = z.infer<typeof SessionInfoSchema>;
+export type LinkedIdentity = z.infer<typeof LinkedIdentitySchema>;
+export type ImportReport = z.infer<typeof ImportReportSchema>;
+export type DirectoryPage = z.infer<typeof DirectoryPageSchema>;
+export type AdminUserSummary = z.infer<typeof AdminUserSummarySchema>;
+export type Impersonator = z.infer<typeof ImpersonatorSchema>;
+export type ImpersonationResponse = z.infer<typeof ImpersonationResponseSchema>;
+export type SecurityEvent = z.infer<typeof SecurityEventSchema>;
+export type DeleteAccountResponse = z.infer<typeof DeleteAccountResponseSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
 export type SuccessResponse = z.infer<typeof SuccessResponseSchema>;
 export type DataResponse = z.infer<typeof DataResponseSchema>;
@@ -72,26 +364,204 @@ export type EventsResponse = z.infer<typeof EventsResponseSchema>;
 export interface UserDOEndpoints {
   'POST /api/signup': {
     body: SignupRequest;
-    response: AuthResponse | ErrorResponse;
+    response: AuthResponse | EmailVerificationRequiredResponse | ErrorResponse;
+  };
+  'POST /api/verify-email': {
+    body: VerifyEmailRequest;
+    response: SuccessResponse | ErrorResponse;
+  };
+  'GET /api/verify-email': {
+    query: { token: string };
+    response: ErrorResponse;
+  };
+  'POST /api/verify-email/resend': {
+    body: Partial<ResendVerificationRequest>;
+    response: SuccessResponse | ErrorResponse;
   };
   'POST /api/login': {
     body: LoginRequest;
+    response: AuthResponse | MfaChallengeResponse | ErrorResponse;
+  };
+  'POST /api/refresh': {
+    // Falls back to the refreshToken cookie
+    body: RefreshRequest;
+    response: RefreshResponse | ErrorResponse;
+  };
+  'POST /api/login/magic': {
+    body: LoginCodeRequest;
+    // code and linkToken are only included when the worker runs with devMode
+    response: { ok: true; message: string; code?: string; linkToken?: string } | ErrorResponse;
+  };
+  'GET /api/login/magic': {
+    query: { email: string; token: string };
+    response: ErrorResponse;
+  };
+  'POST /api/login/code': {
+    body: LoginCodeVerify;
+    response: AuthResponse | MfaChallengeResponse | ErrorResponse;
+  };
+  'POST /api/login/mfa': {
+    body: MfaVerifyRequest;
+    response: AuthResponse | ErrorResponse;
+  };
+  'POST /api/mfa/totp/enroll': {
+    response: TotpEnrollResponse | ErrorResponse;
+  };
+  'POST /api/mfa/totp/confirm': {
+    body: TotpCodeRequest;
+    response: SuccessResponse | ErrorResponse;
+  };
+  'POST /api/mfa/totp/disable': {
+    body: TotpCodeRequest;
+    response: SuccessResponse | ErrorResponse;
+  };
+  'GET /api/oauth/:provider/start': {
+    query: { redirect?: string; link?: string };
+    response: ErrorResponse;
+  };
+  'GET /api/oauth/:provider/callback': {
+    query: { code?: string; state?: string; error?: string };
+    response: ErrorResponse;
+  };
+  'GET /api/sessions': {
+    response: { sessions: SessionInfo[] } | ErrorResponse;
+  };
+  'POST /api/sessions/revoke-others': {
+    response: { ok: true; revoked: number } | ErrorResponse;
+  };
+  'DELETE /api/sessions/:id': {
+    response: SuccessResponse | ErrorResponse;
+  };
+  'GET /api/me/export': {
+    // NDJSON, one AccountExportRecord per line
+    response: string | ErrorResponse;
+  };
+  'POST /api/email/change': {
+    body: ChangeEmailRequest;
+    // confirmationToken is only included when the worker runs with devMode
+    response: { ok: true; confirmationToken?: string } | ErrorResponse;
+  };
+  'POST /api/email/change/confirm': {
+    body: VerifyEmailRequest;
+    response: { email: string } | ErrorResponse;
+  };
+  'GET /api/email/change/confirm': {
+    query: { token: string };
+    response: ErrorResponse;
+  };
+  'DELETE /api/account': {
+    body: DeleteAccountRequest;
+    response: DeleteAccountResponse | ErrorResponse;
+  };
+  'GET /api/identities': {
+    response: { identities: LinkedIdentity[] } | ErrorResponse;
+  };
+  'POST /api/identities/email': {
+    body: AddEmailRequest;
+    // confirmationToken is only included when the worker runs with devMode
+    response: { ok: true; confirmationToken?: string } | ErrorResponse;
+  };
+  'POST /api/identities/email/confirm': {
+    body: VerifyEmailRequest;
+    response: { identity: LinkedIdentity } | ErrorResponse;
+  };
+  'GET /api/identities/email/confirm': {
+    query: { token: string };
+    response: ErrorResponse;
+  };
+  'DELETE /api/identities/:id': {
+    response: SuccessResponse | ErrorResponse;
+  };
+  'POST /api/webauthn/register/options': {
+    response: Record<string, unknown> | ErrorResponse;
+  };
+  'POST /api/webauthn/register/verify': {
+    body: PasskeyRegisterVerifyRequest;
+    response: { passkey: PasskeyInfo } | ErrorResponse;
+  };
+  'POST /api/webauthn/login/options': {
+    body: PasskeyLoginOptionsRequest;
+    response: Record<string, unknown> | ErrorResponse;
+  };
+  'POST /api/webauthn/login/verify': {
+    body: PasskeyLoginVerifyRequest;
     response: AuthResponse | ErrorResponse;
   };
+  'GET /api/webauthn/credentials': {
+    response: { passkeys: PasskeyInfo[] } | ErrorResponse;
+  };
+  'PUT /api/webauthn/credentials/:id': {
+    body: PasskeyRenameRequest;
+    response: { passkey: PasskeyInfo } | ErrorResponse;
+  };
+  'DELETE /api/webauthn/credentials/:id': {
+    response: SuccessResponse | ErrorResponse;
+  };
   'POST /api/logout': {
     response: SuccessResponse;
   };
   'GET /api/me': {
-    response: { user: AuthResponse['user'] } | ErrorResponse;
+    // impersonator is set when the request used an impersonation token
+    response: { user: AuthResponse['user']; impersonator?: Impersonator } | ErrorResponse;
+  };
+  'PUT /api/me/handle': {
+    body: SetHandleRequest;
+    response: { handle: string } | ErrorResponse;
+  };
+  'DELETE /api/me/handle': {
+    response: SuccessResponse | ErrorResponse;
+  };
+  'GET /api/me/security-log': {
+    response: { events: SecurityEvent[] } | ErrorResponse;
+  };
+  'GET /api/handles/:handle': {
+    // reason explains why an unavailable handle can't be used, e.g. "Handle is reserved"
+    response: { handle: string; available: boolean; reason?: string } | ErrorResponse;
   };
   'POST /api/password-reset/request': {
     body: PasswordResetRequest;
+    // resetToken is only included when the worker runs with devMode
     response: { ok: true; message: string; resetToken?: string } | ErrorResponse;
   };
   'POST /api/password-reset/confirm': {
     body: PasswordResetConfirm;
     response: { ok: true; message: string } | ErrorResponse;
   };
+  'POST /api/admin/import': {
+    // Authorization: Bearer <import secret>
+    body: ImportUsersRequest;
+    response: ImportReport | ErrorResponse;
+  };
+  // The /api/admin/users routes need the admin role (403 without it)
+  'GET /api/admin/users': {
+    query: { q?: string; role?: string; status?: 'active' | 'suspended' | 'pending_deletion'; cursor?: string; limit?: string };
+    response: DirectoryPage | ErrorResponse;
+  };
+  'GET /api/admin/users/:email': {
+    response: { user: AdminUserSummary } | ErrorResponse;
+  };
+  'POST /api/admin/users/:email/suspend': {
+    body: SuspendAccountRequest;
+    response: { status: 'suspended'; statusChangedAt: string } | ErrorResponse;
+  };
+  'POST /api/admin/users/:email/reinstate': {
+    response: { status: 'active'; statusChangedAt: string } | ErrorResponse;
+  };
+  'POST /api/admin/users/:email/impersonate': {
+    body: ImpersonateRequest;
+    response: ImpersonationResponse | ErrorResponse;
+  };
+  'POST /api/admin/users/:email/logout': {
+    response: SuccessResponse | ErrorResponse;
+  };
+  'POST /api/admin/users/:email/password-reset': {
+    // resetToken is only included when the worker runs with devMode
+    response: { ok: true; resetToken?: string } | ErrorResponse;
+  };
+  'PUT /api/admin/users/:email/roles': {
+    body: SetRolesRequest;
+    response: { roles: string[] } | ErrorResponse;
+  };
   'GET /api/events': {
     query: { since?: string };
     response: EventsResponse | ErrorResponse;
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { createNamespace, silenceConsole } from './test-utils';
+
+const { UserDO, createUserDOWorker } = await import('./worker');
+
+describe('routes refused while impersonating', () => {
+  const app = createUserDOWorker('USERDO');
+  let env: Record<string, unknown>;
+  let users: ReturnType<typeof createNamespace<InstanceType<typeof UserDO>>>;
+  silenceConsole();
+
+  beforeEach(() => {
+    env = { JWT_SECRET: 'worker-test-secret' };
+    users = createNamespace(env, UserDO);
+    env.USERDO = users;
+  });
+
+  const impersonationToken = async (email: string) => {
+    const userDO = users.get(users.idFromName(email));
+    await userDO.signup({ email, password: 'Tr0ub4dor&3-horse' });
+    return (await userDO.impersonate({ actor: { id: 'staff-1', email: 'staff@example.com' } })).token;
+  };
+
+  test.each([
+    ['PUT', '/api/webauthn/credentials/some-id', { name: 'Renamed' }],
+    ['POST', '/data', { key: 'profile', value: { plan: 'free' } }],
+  ])('%s %s', async (method, path, body) => {
+    const token = await impersonationToken('owner@example.com');
+    const response = await app.request(`https://app.test${path}`, {
+      method,
+      headers: { 'content-type': 'application/json', cookie: `token=${token}` },
+      body: JSON.stringify(body),
+    }, env);
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Not allowed while impersonating' });
+  });
+});
@@ -1,15 +1,56 @@
-import { Hono, Context } from 'hono'
+import { Hono, Context, Next } from 'hono'
 import { getCookie, setCookie, deleteCookie } from 'hono/cookie'
 import { cors } from 'hono/cors'
-import { createAuthMiddleware } from './authMiddleware.js'
-import { UserDO, type Env } from './UserDO.js'
+import { createAuthMiddleware, getClientContext, refuseImpersonation, requireRole } from './authMiddleware.js'
+import { UserDO, WEBSOCKET_AUDIENCE_HEADER, oauthIdentityId, type Env, type Impersonator } from './UserDO.js'
+import { RateLimiterDO, parseRetryAfter, type IpRateLimits } from './limiter.js'
+import { HandleRegistryDO, getHandleRegistry, handleProblem, isHandleIdentifier, normalizeHandle } from './handles.js'
+import { UserDirectoryDO, getUserDirectory } from './directory.js'
+import { parsePasswordPolicyError } from './password-policy.js'
+import { defineUserDOConfig, type UserDOConfigOverrides } from './config.js'
+import { importUsers } from './import.js'
+import { getKeyRing } from './keys.js'
+import { timingSafeEqual } from './password.js'
+import { ConsoleMailer, defaultTemplates, type Mailer, type MailTemplates } from './mailer.js'
+import type { RelyingParty } from './webauthn.js'
 import {
-  SignupRequestSchema,
-  LoginRequestSchema,
+  createPkcePair,
+  generateOAuthState,
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  fetchOAuthProfile,
+  type OAuthProvider,
+  type FetchLike,
+} from './oauth.js'
+import {
+  createPasswordRequestSchemas,
   PasswordResetRequestSchema,
-  PasswordResetConfirmSchema,
   SetDataRequestSchema,
+  MfaVerifyRequestSchema,
+  TotpCodeRequestSchema,
+  PasskeyRegisterVerifyRequestSchema,
+  PasskeyLoginOptionsRequestSchema,
+  PasskeyLoginVerifyRequestSchema,
+  PasskeyRenameRequestSchema,
+  VerifyEmailRequestSchema,
+  LoginCodeRequestSchema,
+  LoginCodeVerifySchema,
+  ResendVerificationRequestSchema,
+  AddEmailRequestSchema,
+  ImportUsersRequestSchema,
+  ChangeEmailRequestSchema,
+  SetHandleRequestSchema,
+  SetRolesRequestSchema,
+  SuspendAccountRequestSchema,
+  ImpersonateRequestSchema,
+  AccountStatusSchema,
+  DeleteAccountRequestSchema,
+  RefreshRequestSchema,
   type AuthResponse,
+  type DeleteAccountResponse,
+  type MfaChallengeResponse,
+  type EmailVerificationRequiredResponse,
+  type RefreshResponse,
   type ErrorResponse,
   type SuccessResponse,
   type DataResponse,
@@ -18,6 +59,92 @@ import {
 type User = {
   id: string;
   email: string;
+  emailVerified?: boolean;
+  handle?: string;
+  roles?: string[];
+}
+
+export interface UserDOWorkerOptions {
+  /** Delivers verification and other account emails. Defaults to logging them to the console. */
+  mailer?: Mailer;
+  /** Name used in outgoing emails (default: "UserDO") */
+  appName?: string;
+  /** Refuse logins (and skip the signup session) until the email address is verified */
+  requireEmailVerification?: boolean;
+  /** Builds the link put in verification emails. Defaults to GET /api/verify-email on this worker. */
+  emailVerificationUrl?: (token: string, c: Context) => string;
+  /** Builds the link put in password reset emails. Defaults to /reset-password?token=... on this origin. */
+  passwordResetUrl?: (token: string, c: Context) => string;
+  /** Builds the magic link put in sign-in code emails. Defaults to GET /api/login/magic on this worker. */
+  magicLinkUrl?: (token: string, email: string, c: Context) => string;
+  /** Builds the link put in secondary email confirmations. Defaults to GET /api/identities/email/confirm on this worker. */
+  linkEmailUrl?: (token: string, c: Context) => string;
+  /** Builds the link put in email change confirmations. Defaults to GET /api/email/change/confirm on this worker. */
+  changeEmailUrl?: (token: string, c: Context) => string;
+  /** Override the subject/body of outgoing emails */
+  templates?: Partial<MailTemplates>;
+  /**
+   * Local development only: include one-time tokens (e.g. resetToken) in API responses
+   * so flows can be exercised without a mail provider. Never enable in production.
+   */
+  devMode?: boolean;
+  /**
+   * `aud` claim for tokens issued through this worker, for deployments where several
+   * apps share one UserDO namespace. Tokens for other audiences are rejected here.
+   * Defaults to the JWT_AUDIENCE var.
+   */
+  audience?: string;
+  /** Social login providers, served at /api/oauth/:provider/start and /api/oauth/:provider/callback */
+  oauth?: {
+    providers: OAuthProvider[];
+    /** Callback URL registered with the provider. Defaults to /api/oauth/:provider/callback on this origin. */
+    redirectUri?: (providerId: string, c: Context) => string;
+    /** Where the browser lands after login when no ?redirect= was given (default: "/") */
+    successRedirect?: string;
+    /** Replaces fetch for calls to the provider, e.g. to use a local stand-in IdP in tests */
+    fetch?: FetchLike;
+  };
+  /**
+   * Per-client-IP limits on login, signup and email-sending routes, counted in a
+   * RateLimiterDO. Skipped (with a warning) when the binding isn't configured.
+   */
+  rateLimit?: {
+    /** Durable Object binding for RateLimiterDO (default: "RATE_LIMITER"); limits come from config.rateLimits.ip */
+    binding?: string;
+  };
+  /**
+   * Password policy and per-IP rate limits for the routes. Pass the same settings
+   * as your UserDO subclass's `config` so both sides agree.
+   */
+  config?: UserDOConfigOverrides;
+  /**
+   * Bulk user import at POST /api/admin/import. Disabled unless the secret is set;
+   * callers send it as "Authorization: Bearer <secret>".
+   */
+  import?: {
+    /** Environment secret holding the import key (default: "IMPORT_SECRET") */
+    secretBinding?: string;
+    /** Users accepted per request (default: 100) */
+    maxBatchSize?: number;
+  };
+  /**
+   * User directory and account management at /api/admin/users, for accounts holding
+   * the admin role (set with userDO.setRoles()). Needs the USER_DIRECTORY binding.
+   */
+  admin?: {
+    /** Role required for the admin routes (default: "admin") */
+    role?: string;
+  };
+  /**
+   * Relying party settings for passkeys.
+   * Defaults to the hostname and origin of the incoming request.
+   */
+  webauthn?: {
+    rpId?: string;
+    rpName?: string;
+    origins?: string[];
+    requireUserVerification?: boolean;
+  };
 }
 
 // --- UTILITIES ---
@@ -39,6 +166,39 @@ const clearAuthCookies = (c: Context) => {
   deleteCookie(c, 'refreshToken');
 };
 
+// Holds the pending MFA challenge between the password and code steps
+const setMfaCookie = (c: Context, mfaToken: string) => {
+  setCookie(c, 'mfaToken', mfaToken, {
+    httpOnly: true,
+    secure: isRequestSecure(c),
+    path: '/',
+    sameSite: 'Lax',
+    maxAge: 5 * 60
+  });
+};
+
+const getEmailFromTokenPayload = (token: string): string => {
+  const tokenParts = token.split('.');
+  if (tokenParts.length !== 3) throw new Error('Invalid token format');
+  const payload = JSON.parse(atob(tokenParts[1]));
+  const email = payload.email?.toLowerCase();
+  if (!email) throw new Error('Invalid token');
+  return email;
+};
+
+// Session of the current request, read from the access (or refresh) token cookie
+const getCurrentSessionId = (c: Context): string | undefined => {
+  for (const name of ['token', 'refreshToken']) {
+    try {
+      const sid = JSON.parse(atob((getCookie(c, name) || '').split('.')[1])).sid;
+      if (sid) return sid;
+    } catch {
+      // Missing or malformed cookie
+    }
+  }
+  return undefined;
+};
+
 const parseBody = async (c: Context, schema: any) => {
   const contentType = c.req.header('content-type') || '';
   if (contentType.includes('application/json')) {
@@ -55,9 +215,33 @@ const parseBody = async (c: Context, schema: any) => {
 
 const handleError = (e: any, defaultMessage: string) => {
   const errorResponse: ErrorResponse = { error: e.message || defaultMessage };
+  // Rate limit errors keep their delay in the message across RPC
+  const retryAfter = parseRetryAfter(e?.message);
+  if (retryAfter !== null) {
+    errorResponse.retryAfter = retryAfter;
+    return { errorResponse, status: 429 as const };
+  }
+  // Distinct from a bad login so clients can tell the user why
+  if (e?.message === 'Account suspended' || e?.message === 'Not allowed while impersonating') {
+    return { errorResponse, status: 403 as const };
+  }
+  const passwordPolicy = parsePasswordPolicyError(e?.message);
+  if (passwordPolicy) {
+    errorResponse.error = 'Password does not meet requirements';
+    errorResponse.passwordPolicy = passwordPolicy;
+  }
   return { errorResponse, status: 400 as const };
 };
 
+// Finish work after the response so timing doesn't reveal whether it ran
+const runInBackground = (c: Context, promise: Promise<void>) => {
+  try {
+    c.executionCtx.waitUntil(promise);
+  } catch {
+    // No execution context (e.g. app.request in tests) - let it run detached
+  }
+};
+
 const requireAuth = (c: Context) => {
   const user = c.get('user');
   if (!user) {
@@ -67,8 +251,131 @@ const requireAuth = (c: Context) => {
 };
 
 // --- ROUTE FACTORY ---
-function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
-  const routes = new Hono<{ Bindings: Env, Variables: { user: User } }>();
+function createRoutes(
+  getUserDO: (c: Context, email: string) => UserDO,
+  options: UserDOWorkerOptions = {}
+) {
+  const routes = new Hono<{ Bindings: Env, Variables: { user: User; impersonator?: Impersonator } }>();
+
+  // Validated here so a bad config fails at startup rather than on the first request
+  const config = defineUserDOConfig(options.config);
+  const { SignupRequestSchema, LoginRequestSchema, PasswordResetConfirmSchema } = createPasswordRequestSchemas(config.password);
+
+  const mailer = options.mailer || new ConsoleMailer();
+  const appName = options.appName || 'UserDO';
+  const requireVerifiedEmail = !!options.requireEmailVerification;
+
+  const templates: MailTemplates = { ...defaultTemplates, ...options.templates };
+
+  const sendVerificationEmail = async (c: Context, userDO: UserDO, email: string) => {
+    const { verificationToken } = await userDO.generateEmailVerificationToken();
+    const url = options.emailVerificationUrl
+      ? options.emailVerificationUrl(verificationToken, c)
+      : `${new URL(c.req.url).origin}/api/verify-email?token=${encodeURIComponent(verificationToken)}`;
+    const message = templates.emailVerification({ email, url, token: verificationToken, appName });
+    await mailer.send({ to: email, ...message });
+  };
+
+  const sendPasswordResetEmail = async (c: Context, userDO: UserDO) => {
+    const { resetToken, email, expiresInMinutes } = await userDO.generatePasswordResetToken();
+    const url = options.passwordResetUrl
+      ? options.passwordResetUrl(resetToken, c)
+      : `${new URL(c.req.url).origin}/reset-password?token=${encodeURIComponent(resetToken)}`;
+    const message = templates.passwordReset({ email, url, token: resetToken, appName, expiresInMinutes });
+    await mailer.send({ to: email, ...message });
+    return resetToken;
+  };
+
+  const sendLoginCodeEmail = async (c: Context, userDO: UserDO, requestedEmail: string) => {
+    const { code, linkToken, email, expiresInMinutes } = await userDO.requestLoginCode({ email: requestedEmail });
+    const url = options.magicLinkUrl
+      ? options.magicLinkUrl(linkToken, email, c)
+      : `${new URL(c.req.url).origin}/api/login/magic?email=${encodeURIComponent(email)}&token=${encodeURIComponent(linkToken)}`;
+    const message = templates.loginCode({ email, code, url, appName, expiresInMinutes });
+    await mailer.send({ to: email, ...message });
+    return { code, linkToken };
+  };
+
+  const sendEmailLinkConfirmation = async (c: Context, userDO: UserDO, requestedEmail: string) => {
+    const { confirmationToken, email } = await userDO.addEmail({ email: requestedEmail });
+    const url = options.linkEmailUrl
+      ? options.linkEmailUrl(confirmationToken, c)
+      : `${new URL(c.req.url).origin}/api/identities/email/confirm?token=${encodeURIComponent(confirmationToken)}`;
+    const message = templates.emailLink({ email, url, token: confirmationToken, appName });
+    await mailer.send({ to: email, ...message });
+    return confirmationToken;
+  };
+
+  const sendEmailChangeConfirmation = async (c: Context, userDO: UserDO, requestedEmail: string) => {
+    const { confirmationToken, email: newEmail, expiresInMinutes } = await userDO.requestEmailChange({ email: requestedEmail });
+    const url = options.changeEmailUrl
+      ? options.changeEmailUrl(confirmationToken, c)
+      : `${new URL(c.req.url).origin}/api/email/change/confirm?token=${encodeURIComponent(confirmationToken)}`;
+    const email = getEmailFromTokenPayload(confirmationToken);
+    const message = templates.emailChange({ email, newEmail, url, token: confirmationToken, appName, expiresInMinutes });
+    // Sent to the new address: opening the link proves it belongs to the user
+    await mailer.send({ to: newEmail, ...message });
+    return confirmationToken;
+  };
+
+  // Sessions (and their tokens) are tied to this app's audience, if one is set
+  const clientContext = (c: Context) => getClientContext(c, options.audience);
+
+  // Login entry points take any linked identity (e.g. a secondary email) and
+  // follow its alias record to the account's Durable Object
+  const resolveUserDO = async (c: Context, identifier: string) => {
+    const userDO = getUserDO(c, identifier);
+    const alias = await userDO.getAlias();
+    return alias ? getUserDO(c, alias.email) : userDO;
+  };
+
+  // Password logins accept a handle in place of the email; the HandleRegistryDO
+  // says which account holds it
+  const loginEmail = async (c: Context, identifier: string): Promise<string> => {
+    if (!isHandleIdentifier(identifier)) return identifier.toLowerCase();
+    const namespace = c.env.HANDLE_REGISTRY as DurableObjectNamespace<HandleRegistryDO> | undefined;
+    const record = namespace ? await getHandleRegistry(namespace).lookup({ handle: identifier }) : null;
+    // Same answer as a wrong password, so the login form can't be used to probe handles
+    if (!record) throw new Error('Invalid credentials');
+    return record.email;
+  };
+
+  const ipRateLimits: IpRateLimits = config.rateLimits.ip;
+  const limiterBinding = options.rateLimit?.binding || 'RATE_LIMITER';
+  let warnedMissingLimiter = false;
+
+  // Counts the request against the client IP's bucket before any UserDO is touched
+  const limitByIp = (bucket: keyof IpRateLimits) => async (c: Context, next: Next) => {
+    const namespace = c.env[limiterBinding] as DurableObjectNamespace<RateLimiterDO> | undefined;
+    const { ip } = getClientContext(c);
+    if (!namespace) {
+      if (!warnedMissingLimiter) {
+        console.warn(`⚠️ Rate limiter binding '${limiterBinding}' not found - per-IP limits are disabled`);
+        warnedMissingLimiter = true;
+      }
+      return next();
+    }
+    if (!ip) return next();
+
+    const limiter = namespace.get(namespace.idFromName(ip));
+    const { ok, retryAfter } = await limiter.consume({ bucket, ...ipRateLimits[bucket] });
+    if (!ok && retryAfter !== null) {
+      c.header('Retry-After', String(retryAfter));
+      const response: ErrorResponse = { error: `Too many requests, try again in ${retryAfter} seconds`, retryAfter };
+      return c.json(response, 429);
+    }
+    return next();
+  };
+
+  const getRelyingParty = (c: Context): RelyingParty & { rpName: string } => {
+    const url = new URL(c.req.url);
+    return {
+      rpId: options.webauthn?.rpId || url.hostname,
+      rpName: options.webauthn?.rpName || 'UserDO',
+      origins: options.webauthn?.origins || [url.origin],
+      requireUserVerification: options.webauthn?.requireUserVerification,
+    };
+  };
 
   // CORS middleware (must come before auth middleware)
   routes.use('/*', cors({
@@ -78,16 +385,50 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     credentials: true, // Allow cookies
   }));
 
-  // Auth middleware
-  routes.use('/*', createAuthMiddleware(getUserDO));
+  // Rate-limited responses tell the client when to retry
+  routes.use('/*', async (c, next) => {
+    await next();
+    if (c.res.status === 429 && !c.res.headers.has('Retry-After')) {
+      const body = await c.res.clone().json().catch(() => undefined) as ErrorResponse | undefined;
+      if (body?.retryAfter) c.res.headers.set('Retry-After', String(body.retryAfter));
+    }
+  });
+
+  // Auth middleware. Staff impersonating a user can look around, but routes that
+  // change how the account signs in, delete it, or change organization ownership
+  // or membership are behind refuseImpersonation()
+  routes.use('/*', createAuthMiddleware(getUserDO, '', { audience: options.audience }));
 
   // --- API ENDPOINTS ---
-  routes.post('/api/signup', async (c) => {
+  // Public signing keys, so other services can verify UserDO tokens without the secret
+  routes.get('/.well-known/jwks.json', (c) => {
+    try {
+      c.header('Cache-Control', 'public, max-age=300');
+      return c.json(getKeyRing(c.env).jwks());
+    } catch (e: any) {
+      const { errorResponse } = handleError(e, "Signing keys unavailable");
+      return c.json(errorResponse, 500);
+    }
+  });
+
+  routes.post('/api/signup', limitByIp('signup'), async (c) => {
     try {
       const { email, password } = await parseBody(c, SignupRequestSchema);
       const userDO = getUserDO(c, email.toLowerCase());
-      const { user, token, refreshToken } = await userDO.signup({ email: email.toLowerCase(), password });
+      const result = await userDO.signup({ email: email.toLowerCase(), password, requireVerifiedEmail, client: clientContext(c) });
+
+      try {
+        await sendVerificationEmail(c, userDO, email.toLowerCase());
+      } catch (e) {
+        console.error('Failed to send verification email', e);
+      }
+
+      if ('emailVerificationRequired' in result) {
+        const response: EmailVerificationRequiredResponse = { user: result.user, emailVerificationRequired: true };
+        return c.json(response);
+      }
 
+      const { user, token, refreshToken } = result;
       setAuthCookies(c, token, refreshToken);
       const response: AuthResponse = { user, token, refreshToken };
       return c.json(response);
@@ -97,12 +438,20 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     }
   });
 
-  routes.post('/api/login', async (c) => {
+  routes.post('/api/login', limitByIp('login'), async (c) => {
     try {
-      const { email, password } = await parseBody(c, LoginRequestSchema);
-      const userDO = getUserDO(c, email.toLowerCase());
-      const { user, token, refreshToken } = await userDO.login({ email: email.toLowerCase(), password });
+      const { email: identifier, password } = await parseBody(c, LoginRequestSchema);
+      const email = await loginEmail(c, identifier);
+      const userDO = await resolveUserDO(c, email);
+      const result = await userDO.login({ email, password, requireVerifiedEmail, client: clientContext(c) });
+
+      if ('mfaRequired' in result) {
+        setMfaCookie(c, result.mfaToken);
+        const response: MfaChallengeResponse = { mfaRequired: true, mfaToken: result.mfaToken };
+        return c.json(response);
+      }
 
+      const { user, token, refreshToken } = result;
       setAuthCookies(c, token, refreshToken);
       const response: AuthResponse = { user, token, refreshToken };
       return c.json(response);
@@ -112,6 +461,572 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     }
   });
 
+  // Rotates the refresh token. Browsers use the cookie, other clients send it in the body.
+  routes.post('/api/refresh', async (c) => {
+    try {
+      const contentType = c.req.header('content-type') || '';
+      const body = contentType.includes('application/json')
+        ? RefreshRequestSchema.parse(await c.req.json())
+        : {};
+      const currentToken = body.refreshToken || getCookie(c, 'refreshToken');
+      if (!currentToken) throw new Error('No refresh token');
+
+      const userDO = getUserDO(c, getEmailFromTokenPayload(currentToken));
+      const { token, refreshToken } = await userDO.refreshToken({ refreshToken: currentToken, client: clientContext(c) });
+
+      setAuthCookies(c, token, refreshToken);
+      const response: RefreshResponse = { token, refreshToken };
+      return c.json(response);
+    } catch (e: any) {
+      clearAuthCookies(c);
+      const { errorResponse, status } = handleError(e, "Token refresh failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // --- PASSWORDLESS LOGIN ENDPOINTS ---
+  // Same response whether or not the account exists
+  routes.post('/api/login/magic', limitByIp('email'), async (c) => {
+    let email: string;
+    try {
+      ({ email } = await parseBody(c, LoginCodeRequestSchema));
+      email = email.toLowerCase();
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Login code request failed");
+      return c.json(errorResponse, status);
+    }
+
+    const delivery = resolveUserDO(c, email).then((userDO) => sendLoginCodeEmail(c, userDO, email));
+    let secrets: { code: string; linkToken: string } | undefined;
+    if (options.devMode) {
+      secrets = await delivery.catch((e) => {
+        console.log('Login code skipped:', e?.message);
+        return undefined;
+      });
+    } else {
+      runInBackground(c, delivery.then(() => undefined, (e) => {
+        console.log('Login code skipped:', e?.message);
+      }));
+    }
+
+    return c.json({
+      ok: true as const,
+      message: "If an account exists for this email, a sign-in code has been sent",
+      ...(secrets || {})
+    });
+  });
+
+  // Target of the link in sign-in emails
+  routes.get('/api/login/magic', limitByIp('login'), async (c) => {
+    try {
+      const email = (c.req.query('email') || '').toLowerCase();
+      const linkToken = c.req.query('token') || '';
+      const userDO = await resolveUserDO(c, email);
+      const result = await userDO.verifyLoginCode({ email, linkToken, client: clientContext(c) });
+
+      if ('mfaRequired' in result) {
+        setMfaCookie(c, result.mfaToken);
+        return c.redirect('/?mfa=required');
+      }
+
+      setAuthCookies(c, result.token, result.refreshToken);
+      return c.redirect('/');
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Magic link login failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/login/code', limitByIp('login'), async (c) => {
+    try {
+      const { email, code } = await parseBody(c, LoginCodeVerifySchema);
+      const userDO = await resolveUserDO(c, email.toLowerCase());
+      const result = await userDO.verifyLoginCode({ email: email.toLowerCase(), code, client: clientContext(c) });
+
+      if ('mfaRequired' in result) {
+        setMfaCookie(c, result.mfaToken);
+        const response: MfaChallengeResponse = { mfaRequired: true, mfaToken: result.mfaToken };
+        return c.json(response);
+      }
+
+      const { user, token, refreshToken } = result;
+      setAuthCookies(c, token, refreshToken);
+      const response: AuthResponse = { user, token, refreshToken };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Code login failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/login/mfa', limitByIp('login'), async (c) => {
+    try {
+      const { code, mfaToken: bodyToken } = await parseBody(c, MfaVerifyRequestSchema);
+      const mfaToken = bodyToken || getCookie(c, 'mfaToken');
+      if (!mfaToken) throw new Error('No pending MFA challenge');
+
+      const userDO = getUserDO(c, getEmailFromTokenPayload(mfaToken));
+      const { user, token, refreshToken } = await userDO.verifyMfa({ mfaToken, code, client: clientContext(c) });
+
+      deleteCookie(c, 'mfaToken');
+      setAuthCookies(c, token, refreshToken);
+      const response: AuthResponse = { user, token, refreshToken };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "MFA verification failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/mfa/totp/enroll', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const userDO = getUserDO(c, user.email);
+      const result = await userDO.enrollTotp();
+      return c.json(result);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "TOTP enrollment failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/mfa/totp/confirm', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { code } = await parseBody(c, TotpCodeRequestSchema);
+      const userDO = getUserDO(c, user.email);
+      await userDO.confirmTotp({ code });
+      const response: SuccessResponse = { ok: true };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "TOTP confirmation failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/mfa/totp/disable', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { code } = await parseBody(c, TotpCodeRequestSchema);
+      const userDO = getUserDO(c, user.email);
+      await userDO.disableTotp({ code });
+      const response: SuccessResponse = { ok: true };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Disabling TOTP failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // --- EMAIL VERIFICATION ENDPOINTS ---
+  const confirmEmail = async (c: Context, token: string) => {
+    const userDO = getUserDO(c, getEmailFromTokenPayload(token));
+    await userDO.verifyEmail({ token });
+  };
+
+  routes.post('/api/verify-email', async (c) => {
+    try {
+      const { token } = await parseBody(c, VerifyEmailRequestSchema);
+      await confirmEmail(c, token);
+      const response: SuccessResponse = { ok: true };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Email verification failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Target of the link in verification emails
+  routes.get('/api/verify-email', async (c) => {
+    try {
+      await confirmEmail(c, c.req.query('token') || '');
+      return c.redirect('/?emailVerified=1');
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Email verification failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Signed-in users resend for themselves; otherwise an email is required and the
+  // response is the same whether or not the account exists
+  routes.post('/api/verify-email/resend', limitByIp('email'), async (c) => {
+    const currentUser = c.get('user');
+    try {
+      const email = currentUser?.email || (await parseBody(c, ResendVerificationRequestSchema)).email.toLowerCase();
+      await sendVerificationEmail(c, getUserDO(c, email), email);
+    } catch (e: any) {
+      if (currentUser) {
+        const { errorResponse, status } = handleError(e, "Failed to resend verification email");
+        return c.json(errorResponse, status);
+      }
+      console.log('Verification resend skipped:', e?.message);
+    }
+    const response: SuccessResponse = { ok: true };
+    return c.json(response);
+  });
+
+  // --- SOCIAL LOGIN (OAUTH / OIDC) ENDPOINTS ---
+  const oauthProviders = new Map((options.oauth?.providers || []).map(p => [p.id, p]));
+  const oauthFetch: FetchLike = options.oauth?.fetch || ((input, init) => fetch(input, init));
+  const OAUTH_STATE_TTL = 10 * 60;
+
+  const getOAuthProvider = (c: Context) => {
+    const provider = oauthProviders.get(c.req.param('provider') || '');
+    if (!provider) throw new Error('Unknown OAuth provider');
+    return provider;
+  };
+
+  const getOAuthRedirectUri = (c: Context, providerId: string) =>
+    options.oauth?.redirectUri
+      ? options.oauth.redirectUri(providerId, c)
+      : `${new URL(c.req.url).origin}/api/oauth/${providerId}/callback`;
+
+  // Only same-site paths are accepted so the flow can't be used as an open redirect
+  const safeRedirectPath = (value?: string) =>
+    value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\')
+      ? value
+      : options.oauth?.successRedirect || '/';
+
+  routes.get('/api/oauth/:provider/start', refuseImpersonation(), async (c) => {
+    try {
+      const provider = getOAuthProvider(c);
+      // ?link=1 attaches the provider to the signed-in account instead of logging in
+      const linkTo = c.req.query('link') ? requireAuth(c).email : undefined;
+      const state = generateOAuthState();
+      const nonce = generateOAuthState();
+      const { verifier, challenge } = await createPkcePair();
+
+      // The PKCE verifier and state travel in a signed, short-lived cookie
+      const stateToken = await getKeyRing(c.env).sign({
+        type: 'oauth_state',
+        provider: provider.id,
+        state,
+        nonce,
+        verifier,
+        redirect: safeRedirectPath(c.req.query('redirect')),
+        linkTo,
+        exp: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL,
+      });
+      setCookie(c, 'oauthState', stateToken, {
+        httpOnly: true,
+        secure: isRequestSecure(c),
+        path: '/api/oauth',
+        sameSite: 'Lax',
+        maxAge: OAUTH_STATE_TTL
+      });
+
+      return c.redirect(buildAuthorizationUrl(provider, {
+        redirectUri: getOAuthRedirectUri(c, provider.id),
+        state,
+        codeChallenge: challenge,
+        nonce,
+      }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "OAuth login failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.get('/api/oauth/:provider/callback', limitByIp('login'), async (c) => {
+    try {
+      const provider = getOAuthProvider(c);
+      const stateToken = getCookie(c, 'oauthState');
+      deleteCookie(c, 'oauthState', { path: '/api/oauth' });
+      if (!stateToken) throw new Error('Missing OAuth state');
+
+      const verified = await getKeyRing(c.env).verify(stateToken);
+      const pending = verified?.payload as {
+        type?: string; provider?: string; state?: string; nonce: string; verifier: string; redirect: string; linkTo?: string
+      } | undefined;
+      if (!pending || pending.type !== 'oauth_state' || pending.provider !== provider.id || pending.state !== c.req.query('state')) {
+        throw new Error('Invalid OAuth state');
+      }
+
+      const providerError = c.req.query('error');
+      if (providerError) throw new Error(`Provider returned an error: ${providerError}`);
+      const code = c.req.query('code');
+      if (!code) throw new Error('Missing authorization code');
+
+      const tokens = await exchangeAuthorizationCode(provider, {
+        code,
+        redirectUri: getOAuthRedirectUri(c, provider.id),
+        codeVerifier: pending.verifier,
+      }, oauthFetch);
+      const profile = await fetchOAuthProfile(provider, tokens, { nonce: pending.nonce }, oauthFetch);
+      const email = profile.email.toLowerCase();
+
+      if (pending.linkTo) {
+        await getUserDO(c, pending.linkTo).linkOAuthIdentity({ provider: provider.id, subject: profile.subject, email });
+        return c.redirect(pending.redirect);
+      }
+
+      // A linked identity wins; otherwise the provider's verified email picks the account
+      const alias = await getUserDO(c, oauthIdentityId(provider.id, profile.subject)).getAlias();
+      if (!alias && !profile.emailVerified) throw new Error('Provider email is not verified');
+      const userDO = alias ? getUserDO(c, alias.email) : await resolveUserDO(c, email);
+      const result = await userDO.loginWithOAuth({ email, provider: provider.id, subject: profile.subject, client: clientContext(c) });
+
+      if ('mfaRequired' in result) {
+        setMfaCookie(c, result.mfaToken);
+        const separator = pending.redirect.includes('?') ? '&' : '?';
+        return c.redirect(`${pending.redirect}${separator}mfa=required`);
+      }
+
+      setAuthCookies(c, result.token, result.refreshToken);
+      return c.redirect(pending.redirect);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "OAuth login failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // --- SESSION ENDPOINTS ---
+  routes.get('/api/sessions', async (c) => {
+    try {
+      const user = requireAuth(c);
+      const userDO = getUserDO(c, user.email);
+      return c.json(await userDO.listSessions({ currentSessionId: getCurrentSessionId(c) }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to list sessions");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // "Sign out other devices"
+  routes.post('/api/sessions/revoke-others', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const currentSessionId = getCurrentSessionId(c);
+      if (!currentSessionId) throw new Error('Current session unknown, sign in again');
+      const userDO = getUserDO(c, user.email);
+      return c.json(await userDO.revokeOtherSessions({ currentSessionId }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to revoke sessions");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.delete('/api/sessions/:id', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const sessionId = c.req.param('id');
+      const userDO = getUserDO(c, user.email);
+      await userDO.revokeSession(sessionId);
+      if (sessionId === getCurrentSessionId(c)) clearAuthCookies(c);
+      const response: SuccessResponse = { ok: true };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to revoke session");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // --- LINKED IDENTITY ENDPOINTS ---
+  routes.get('/api/identities', async (c) => {
+    try {
+      const user = requireAuth(c);
+      const userDO = getUserDO(c, user.email);
+      return c.json(await userDO.listIdentities());
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to list identities");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/identities/email', limitByIp('email'), refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { email } = await parseBody(c, AddEmailRequestSchema);
+      const confirmationToken = await sendEmailLinkConfirmation(c, getUserDO(c, user.email), email.toLowerCase());
+      return c.json({ ok: true as const, ...(options.devMode ? { confirmationToken } : {}) });
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to add email");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  const confirmLinkedEmail = async (c: Context, token: string) => {
+    const userDO = getUserDO(c, getEmailFromTokenPayload(token));
+    return userDO.confirmEmail({ token });
+  };
+
+  routes.post('/api/identities/email/confirm', async (c) => {
+    try {
+      const { token } = await parseBody(c, VerifyEmailRequestSchema);
+      return c.json(await confirmLinkedEmail(c, token));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Email confirmation failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Target of the link in secondary email confirmations
+  routes.get('/api/identities/email/confirm', async (c) => {
+    try {
+      await confirmLinkedEmail(c, c.req.query('token') || '');
+      return c.redirect('/?emailLinked=1');
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Email confirmation failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.delete('/api/identities/:id', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const userDO = getUserDO(c, user.email);
+      await userDO.unlinkIdentity({ id: c.req.param('id') });
+      const response: SuccessResponse = { ok: true };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to unlink identity");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // --- PASSKEY (WEBAUTHN) ENDPOINTS ---
+  routes.post('/api/webauthn/register/options', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { rpId, rpName } = getRelyingParty(c);
+      const userDO = getUserDO(c, user.email);
+      return c.json(await userDO.createPasskeyRegistrationOptions({ rpId, rpName }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to create passkey options");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/webauthn/register/verify', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { credential, name } = await parseBody(c, PasskeyRegisterVerifyRequestSchema);
+      const userDO = getUserDO(c, user.email);
+      const result = await userDO.verifyPasskeyRegistration({ response: credential, rp: getRelyingParty(c), name });
+      return c.json(result);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Passkey registration failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/webauthn/login/options', limitByIp('login'), async (c) => {
+    try {
+      const { email } = await parseBody(c, PasskeyLoginOptionsRequestSchema);
+      const userDO = await resolveUserDO(c, email.toLowerCase());
+      return c.json(await userDO.createPasskeyLoginOptions({ rpId: getRelyingParty(c).rpId }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to create passkey options");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/webauthn/login/verify', limitByIp('login'), async (c) => {
+    try {
+      const { email, credential } = await parseBody(c, PasskeyLoginVerifyRequestSchema);
+      const userDO = await resolveUserDO(c, email.toLowerCase());
+      const { user, token, refreshToken } = await userDO.verifyPasskeyLogin({ response: credential, rp: getRelyingParty(c), client: clientContext(c) });
+
+      setAuthCookies(c, token, refreshToken);
+      const response: AuthResponse = { user, token, refreshToken };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Passkey login failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.get('/api/webauthn/credentials', async (c) => {
+    try {
+      const user = requireAuth(c);
+      const userDO = getUserDO(c, user.email);
+      return c.json(await userDO.listPasskeys());
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to list passkeys");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.put('/api/webauthn/credentials/:id', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { name } = await parseBody(c, PasskeyRenameRequestSchema);
+      const userDO = getUserDO(c, user.email);
+      return c.json(await userDO.renamePasskey(c.req.param('id'), name));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to rename passkey");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.delete('/api/webauthn/credentials/:id', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const userDO = getUserDO(c, user.email);
+      return c.json(await userDO.removePasskey(c.req.param('id')));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to remove passkey");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.post('/api/email/change', limitByIp('email'), refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { email } = await parseBody(c, ChangeEmailRequestSchema);
+      const confirmationToken = await sendEmailChangeConfirmation(c, getUserDO(c, user.email), email.toLowerCase());
+      return c.json({ ok: true as const, ...(options.devMode ? { confirmationToken } : {}) });
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to change email");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // The token names the current address, so no session is needed to confirm
+  const confirmEmailChange = async (c: Context, token: string) => {
+    const userDO = getUserDO(c, getEmailFromTokenPayload(token));
+    return userDO.confirmEmailChange({ token });
+  };
+
+  routes.post('/api/email/change/confirm', async (c) => {
+    try {
+      const { token } = await parseBody(c, VerifyEmailRequestSchema);
+      return c.json(await confirmEmailChange(c, token));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Email change failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Target of the link in email change confirmations
+  routes.get('/api/email/change/confirm', async (c) => {
+    try {
+      await confirmEmailChange(c, c.req.query('token') || '');
+      return c.redirect('/?emailChanged=1');
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Email change failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Permanent; accounts with a password must confirm it
+  routes.delete('/api/account', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { password, organizations } = await parseBody(c, DeleteAccountRequestSchema);
+      const userDO = getUserDO(c, user.email);
+      const { transferred, deleted } = await userDO.deleteAccount({
+        password, requirePassword: true, organizations, impersonator: c.get('impersonator'),
+      });
+      clearAuthCookies(c);
+      const response: DeleteAccountResponse = { ok: true, transferred, deleted };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to delete account");
+      return c.json(errorResponse, status);
+    }
+  });
+
   routes.post('/api/logout', async (c) => {
     try {
       const token = getCookie(c, 'token') || '';
@@ -121,7 +1036,7 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
         const email = payload.email?.toLowerCase();
         if (email) {
           const userDO = getUserDO(c, email);
-          await userDO.logout();
+          await userDO.logout({ sessionId: payload.sid, accessToken: token });
         }
       }
     } catch (e) {
@@ -132,34 +1047,41 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     return c.json(response);
   });
 
-  routes.post('/api/password-reset/request', async (c) => {
+  // Always answers the same way so the endpoint can't be used to probe for accounts
+  routes.post('/api/password-reset/request', limitByIp('email'), async (c) => {
+    let email: string;
     try {
-      const { email } = await parseBody(c, PasswordResetRequestSchema);
-      const userDO = getUserDO(c, email.toLowerCase());
-      const { resetToken } = await userDO.generatePasswordResetToken();
-
-      return c.json({
-        ok: true,
-        message: "Reset token generated",
-        resetToken // Remove this in production!
-      });
+      ({ email } = await parseBody(c, PasswordResetRequestSchema));
     } catch (e: any) {
       const { errorResponse, status } = handleError(e, "Password reset request failed");
       return c.json(errorResponse, status);
     }
+
+    const delivery = resolveUserDO(c, email.toLowerCase()).then((userDO) => sendPasswordResetEmail(c, userDO));
+    let resetToken: string | undefined;
+    if (options.devMode) {
+      resetToken = await delivery.catch((e) => {
+        console.log('Password reset skipped:', e?.message);
+        return undefined;
+      });
+    } else {
+      runInBackground(c, delivery.then(() => undefined, (e) => {
+        console.log('Password reset skipped:', e?.message);
+      }));
+    }
+
+    return c.json({
+      ok: true as const,
+      message: "If an account exists for this email, a reset link has been sent",
+      ...(resetToken ? { resetToken } : {})
+    });
   });
 
   routes.post('/api/password-reset/confirm', async (c) => {
     try {
       const { resetToken, newPassword } = await parseBody(c, PasswordResetConfirmSchema);
 
-      const tokenParts = resetToken.split('.');
-      if (tokenParts.length !== 3) throw new Error('Invalid token format');
-      const payload = JSON.parse(atob(tokenParts[1]));
-      const email = payload.email?.toLowerCase();
-      if (!email) throw new Error('Invalid token');
-
-      const userDO = getUserDO(c, email);
+      const userDO = getUserDO(c, getEmailFromTokenPayload(resetToken));
       await userDO.resetPasswordWithToken({ resetToken, newPassword });
 
       return c.json({ ok: true, message: "Password reset successful" });
@@ -169,39 +1091,179 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     }
   });
 
+  // Seeds accounts from another auth system; send large exports in batches
+  routes.post('/api/admin/import', async (c: Context) => {
+    const secret = c.env[options.import?.secretBinding || 'IMPORT_SECRET'] as string | undefined;
+    if (!secret) {
+      return c.json({ error: 'Not found' }, 404);
+    }
+    const encoder = new TextEncoder();
+    const presented = c.req.header('authorization')?.replace(/^Bearer\s+/i, '') || '';
+    if (!timingSafeEqual(encoder.encode(presented), encoder.encode(secret))) {
+      return c.json({ error: 'Not authorized' }, 401);
+    }
+
+    try {
+      const { users, firebase } = ImportUsersRequestSchema.parse(await c.req.json());
+      const maxBatchSize = options.import?.maxBatchSize || 100;
+      if (users.length > maxBatchSize) {
+        throw new Error(`Batch too large, send at most ${maxBatchSize} users per request`);
+      }
+      return c.json(await importUsers((email) => getUserDO(c, email), users, { firebase }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Import failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.route('/', createAdminRoutes(getUserDO, {
+    role: options.admin?.role || 'admin',
+    devMode: !!options.devMode,
+    audience: options.audience,
+    sendPasswordResetEmail,
+  }));
+
+  // impersonator is set while support staff view the account as the user
   routes.get('/api/me', async (c) => {
     try {
       const user = requireAuth(c);
-      return c.json({ user });
+      const impersonator = c.get('impersonator');
+      return c.json({ user, ...(impersonator ? { impersonator } : {}) });
     } catch (e: any) {
       const { errorResponse } = handleError(e, "Not authenticated");
       return c.json(errorResponse, 401);
     }
   });
 
+  // Rename by setting a new handle; the old one is freed in the same step
+  routes.put('/api/me/handle', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      const { handle } = await parseBody(c, SetHandleRequestSchema);
+      return c.json(await getUserDO(c, user.email).setHandle({ handle }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to set handle");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  routes.delete('/api/me/handle', refuseImpersonation(), async (c) => {
+    try {
+      const user = requireAuth(c);
+      await getUserDO(c, user.email).removeHandle();
+      const response: SuccessResponse = { ok: true };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to remove handle");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Actions staff have taken on the account, such as impersonating it
+  routes.get('/api/me/security-log', async (c) => {
+    try {
+      const user = requireAuth(c);
+      return c.json(await getUserDO(c, user.email).getSecurityLog());
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to load security log");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Availability check for signup and settings forms; never reveals the owner
+  routes.get('/api/handles/:handle', async (c) => {
+    try {
+      const handle = normalizeHandle(c.req.param('handle'));
+      const problem = handleProblem(handle);
+      if (problem) return c.json({ handle, available: false, reason: problem });
+      const namespace = c.env.HANDLE_REGISTRY;
+      if (!namespace) throw new Error('Handles are not enabled (missing HANDLE_REGISTRY binding)');
+      const record = await getHandleRegistry(namespace).lookup({ handle });
+      return c.json(record ? { handle, available: false, reason: 'Handle already taken' } : { handle, available: true });
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to check handle");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Data subject access request: everything stored about the user as NDJSON
+  routes.get('/api/me/export', async (c) => {
+    try {
+      const user = requireAuth(c);
+      const userDO = getUserDO(c, user.email);
+      const stream = await userDO.exportAccount();
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          'Content-Disposition': `attachment; filename="account-${user.id}.ndjson"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Export failed");
+      return c.json(errorResponse, status);
+    }
+  });
+
   // --- FORM ENDPOINTS ---
   const handleFormAuth = async (c: Context, action: 'signup' | 'login') => {
     try {
       const formData = await c.req.formData();
-      const email = (formData.get('email') as string)?.toLowerCase();
+      const identifier = formData.get('email') as string;
       const password = formData.get('password') as string;
 
-      if (!email || !password) {
+      if (!identifier || !password) {
         return c.json({ error: "Missing fields" }, 400);
       }
+      const email = action === 'login' ? await loginEmail(c, identifier) : identifier.toLowerCase();
 
-      const userDO = getUserDO(c, email);
-      const { user, token, refreshToken } = await userDO[action]({ email, password });
+      const userDO = action === 'login' ? await resolveUserDO(c, email) : getUserDO(c, email);
+      const result = await userDO[action]({ email, password, requireVerifiedEmail, client: clientContext(c) });
 
-      setAuthCookies(c, token, refreshToken);
+      if (action === 'signup') {
+        await sendVerificationEmail(c, userDO, email).catch((e) => console.error('Failed to send verification email', e));
+      }
+
+      if ('mfaRequired' in result) {
+        setMfaCookie(c, result.mfaToken);
+        return c.redirect('/?mfa=required');
+      }
+      if ('emailVerificationRequired' in result) {
+        return c.redirect('/?emailVerification=required');
+      }
+
+      setAuthCookies(c, result.token, result.refreshToken);
       return c.redirect('/');
     } catch (e: any) {
-      return c.json({ error: e.message || `${action} error` }, 400);
+      const { errorResponse, status } = handleError(e, `${action} error`);
+      return c.json(errorResponse, status);
     }
   };
 
-  routes.post('/signup', (c) => handleFormAuth(c, 'signup'));
-  routes.post('/login', (c) => handleFormAuth(c, 'login'));
+  routes.post('/signup', limitByIp('signup'), (c) => handleFormAuth(c, 'signup'));
+  routes.post('/login', limitByIp('login'), (c) => handleFormAuth(c, 'login'));
+
+  routes.post('/login/mfa', limitByIp('login'), async (c) => {
+    try {
+      const formData = await c.req.formData();
+      const code = formData.get('code') as string;
+      const mfaToken = getCookie(c, 'mfaToken');
+
+      if (!code || !mfaToken) {
+        return c.json({ error: "Missing fields" }, 400);
+      }
+
+      const userDO = getUserDO(c, getEmailFromTokenPayload(mfaToken));
+      const { token, refreshToken } = await userDO.verifyMfa({ mfaToken, code, client: clientContext(c) });
+
+      deleteCookie(c, 'mfaToken');
+      setAuthCookies(c, token, refreshToken);
+      return c.redirect('/');
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, 'MFA error');
+      return c.json(errorResponse, status);
+    }
+  });
 
   // Shared logout handler
   const handleLogout = async (c: Context) => {
@@ -213,7 +1275,7 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
         const email = payload.email?.toLowerCase();
         if (email) {
           const userDO = getUserDO(c, email);
-          await userDO.logout();
+          await userDO.logout({ sessionId: payload.sid, accessToken: token });
         }
       }
     } catch (e) {
@@ -240,7 +1302,7 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     }
   });
 
-  routes.post("/data", async (c) => {
+  routes.post("/data", refuseImpersonation(), async (c) => {
     try {
       const user = requireAuth(c);
       const { key, value } = await parseBody(c, SetDataRequestSchema);
@@ -278,7 +1340,7 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
   });
 
   // --- ORGANIZATION ENDPOINTS ---
-  routes.post('/api/organizations', async (c) => {
+  routes.post('/api/organizations', refuseImpersonation(), async (c) => {
     try {
       const user = requireAuth(c);
       const { name } = await parseBody(c, { parse: (data: any) => ({ name: data.name }) });
@@ -331,7 +1393,7 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     }
   });
 
-  routes.post('/api/organizations/:id/members', async (c) => {
+  routes.post('/api/organizations/:id/members', refuseImpersonation(), async (c) => {
     try {
       const user = requireAuth(c);
       const organizationId = c.req.param('id');
@@ -362,7 +1424,7 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
     }
   });
 
-  routes.delete('/api/organizations/:id/members/:userId', async (c) => {
+  routes.delete('/api/organizations/:id/members/:userId', refuseImpersonation(), async (c) => {
     try {
       const user = requireAuth(c);
       const organizationId = c.req.param('id');
@@ -387,9 +1449,22 @@ function createRoutes(getUserDO: (c: Context, email: string) => UserDO) {
       version: '0.1.37',
       status: 'ready',
       endpoints: {
-        auth: ['/api/signup', '/api/login', '/api/logout', '/api/me'],
+        auth: ['/api/signup', '/api/login', '/api/refresh', '/api/login/mfa', '/api/login/magic', '/api/login/code', '/api/logout'],
+        account: ['/api/me', '/api/me/handle', '/api/me/export', '/api/me/security-log', '/api/handles/:handle', '/api/email/change', '/api/email/change/confirm', '/api/account'],
+        emailVerification: ['/api/verify-email', '/api/verify-email/resend'],
+        oauth: ['/api/oauth/:provider/start', '/api/oauth/:provider/callback'],
+        sessions: ['/api/sessions', '/api/sessions/revoke-others', '/api/sessions/:id'],
+        identities: ['/api/identities', '/api/identities/email', '/api/identities/email/confirm', '/api/identities/:id'],
+        mfa: ['/api/mfa/totp/enroll', '/api/mfa/totp/confirm', '/api/mfa/totp/disable'],
+        passkeys: ['/api/webauthn/register/options', '/api/webauthn/register/verify', '/api/webauthn/login/options', '/api/webauthn/login/verify', '/api/webauthn/credentials', '/api/webauthn/credentials/:id'],
+        signingKeys: ['/.well-known/jwks.json'],
+        admin: [
+          '/api/admin/import', '/api/admin/users', '/api/admin/users/:email', '/api/admin/users/:email/suspend',
+          '/api/admin/users/:email/reinstate', '/api/admin/users/:email/impersonate', '/api/admin/users/:email/logout',
+          '/api/admin/users/:email/password-reset', '/api/admin/users/:email/roles',
+        ],
         data: ['/data'],
-        organizations: ['/api/organizations', '/api/organizations/:id', '/api/organizations/:id/members'],
+        organizations: ['/api/organizations', '/api/organizations/:id', '/api/organizations/:id/members', '/api/organizations/:id/members/:userId'],
         passwordReset: ['/api/password-reset/request', '/api/password-reset/confirm']
       },
       docs: 'https://github.com/acoyfellow/userdo'
@@ -409,8 +1484,135 @@ export function getUserDOFromContext(c: Context, email: string, bindingName: str
   return binding.get(userDOID) as unknown as UserDO;
 }
 
-export function createUserDOWorker(bindingName: string = 'USERDO') {
-  return createRoutes((c, email) => getUserDOFromContext(c, email, bindingName));
+// --- ADMIN ROUTES ---
+// Staff-only account management, kept apart from the per-user routes above. Expects
+// the auth middleware to have run; every route checks the caller's role.
+function createAdminRoutes(
+  getUserDO: (c: Context, email: string) => UserDO,
+  { role, devMode, audience, sendPasswordResetEmail }: {
+    role: string;
+    devMode: boolean;
+    audience?: string;
+    sendPasswordResetEmail: (c: Context, userDO: UserDO) => Promise<string>;
+  }
+) {
+  const admin = new Hono<{ Bindings: Env, Variables: { user: User; impersonator?: Impersonator } }>();
+  // An impersonation token carries the user's roles, not the staff member's
+  admin.use('/api/admin/users', refuseImpersonation(), requireRole(role));
+  admin.use('/api/admin/users/*', refuseImpersonation(), requireRole(role));
+
+  const directory = (c: Context) => {
+    const namespace = c.env.USER_DIRECTORY as DurableObjectNamespace<UserDirectoryDO> | undefined;
+    if (!namespace) throw new Error('User directory not enabled (missing USER_DIRECTORY binding)');
+    return getUserDirectory(namespace);
+  };
+  const targetEmail = (c: Context) => c.req.param('email')!.toLowerCase();
+
+  // Search by part of the email or handle; pages are in email order
+  admin.get('/api/admin/users', async (c) => {
+    try {
+      const { q, role: withRole, status, cursor, limit } = c.req.query();
+      return c.json(await directory(c).search({
+        query: q || undefined,
+        role: withRole || undefined,
+        status: AccountStatusSchema.optional().parse(status || undefined),
+        cursor: cursor || undefined,
+        limit: limit ? Number(limit) || undefined : undefined,
+      }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to list users");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  admin.get('/api/admin/users/:email', async (c) => {
+    try {
+      return c.json({ user: await getUserDO(c, targetEmail(c)).getAdminSummary() });
+    } catch (e: any) {
+      const { errorResponse } = handleError(e, "User not found");
+      return c.json(errorResponse, 404);
+    }
+  });
+
+  // Takes effect at once: sessions end and live connections are closed
+  admin.post('/api/admin/users/:email/suspend', async (c) => {
+    try {
+      const email = targetEmail(c);
+      if (email === requireAuth(c).email) throw new Error('You cannot suspend your own account');
+      const { reason } = await parseBody(c, SuspendAccountRequestSchema);
+      return c.json(await getUserDO(c, email).suspendAccount({ reason }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to suspend account");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  admin.post('/api/admin/users/:email/reinstate', async (c) => {
+    try {
+      return c.json(await getUserDO(c, targetEmail(c)).reinstateAccount());
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to reinstate account");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // A short-lived token for seeing the app as the user does, sent as
+  // Authorization: Bearer. The reason is written to the user's security log.
+  admin.post('/api/admin/users/:email/impersonate', async (c) => {
+    try {
+      const staff = requireAuth(c);
+      const { reason } = await parseBody(c, ImpersonateRequestSchema);
+      const actor = { id: staff.id, email: staff.email };
+      return c.json(await getUserDO(c, targetEmail(c)).impersonate({ actor, reason, client: getClientContext(c, audience) }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to impersonate user");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Ends every session; access tokens already issued stop working too
+  admin.post('/api/admin/users/:email/logout', async (c) => {
+    try {
+      await getUserDO(c, targetEmail(c)).revokeAllRefreshTokens();
+      const response: SuccessResponse = { ok: true };
+      return c.json(response);
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to sign user out");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  // Mails the usual reset link to the account owner
+  admin.post('/api/admin/users/:email/password-reset', async (c) => {
+    try {
+      const resetToken = await sendPasswordResetEmail(c, getUserDO(c, targetEmail(c)));
+      return c.json({ ok: true as const, ...(devMode ? { resetToken } : {}) });
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to send password reset");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  admin.put('/api/admin/users/:email/roles', async (c) => {
+    try {
+      const email = targetEmail(c);
+      const { roles } = await parseBody(c, SetRolesRequestSchema);
+      // Keeps at least one admin able to undo mistakes
+      if (email === requireAuth(c).email && !roles.includes(role)) {
+        throw new Error('You cannot remove your own admin role');
+      }
+      return c.json(await getUserDO(c, email).setRoles({ roles }));
+    } catch (e: any) {
+      const { errorResponse, status } = handleError(e, "Failed to set roles");
+      return c.json(errorResponse, status);
+    }
+  });
+
+  return admin;
+}
+
+export function createUserDOWorker(bindingName: string = 'USERDO', options: UserDOWorkerOptions = {}) {
+  return createRoutes((c, email) => getUserDOFromContext(c, email, bindingName), options);
 }
 
 export function broadcastToUser(email: string, message: any, bindingName: string = 'USERDO', env: any) {
@@ -428,7 +1630,9 @@ export function broadcastToUser(email: string, message: any, bindingName: string
   });
 }
 
-export function createWebSocketHandler(bindingName: string = 'USERDO') {
+// audience must match the worker's audience option when one is set, so the tokens
+// that worker issues are accepted for live updates too
+export function createWebSocketHandler(bindingName: string = 'USERDO', options: { audience?: string } = {}) {
   return {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
       const url = new URL(request.url);
@@ -469,7 +1673,11 @@ export function createWebSocketHandler(bindingName: string = 'USERDO') {
           const userDOID = binding.idFromName(email);
           const userDO = binding.get(userDOID);
 
-          return userDO.fetch(request);
+          // Never trust an audience sent by the client
+          const headers = new Headers(request.headers);
+          if (options.audience) headers.set(WEBSOCKET_AUDIENCE_HEADER, options.audience);
+          else headers.delete(WEBSOCKET_AUDIENCE_HEADER);
+          return userDO.fetch(new Request(request, { headers }));
 
         } catch (error) {
           console.log('❌ WebSocket auth failed:', error);
@@ -485,6 +1693,6 @@ export function createWebSocketHandler(bindingName: string = 'USERDO') {
 // Create main app and export
 const app = createRoutes(getUserDOFromContext);
 
-export { UserDO };
+export { UserDO, RateLimiterDO, HandleRegistryDO, UserDirectoryDO };
 export { app as userDOWorker };
 export default app;
\ No newline at end of file
@@ -6,6 +6,9 @@ declare namespace Cloudflare {
 		JWT_SECRET: string;
 		CLOUDFLARE_API_TOKEN: string;
 		USERDO: DurableObjectNamespace<import("./src/worker").UserDO>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/worker").RateLimiterDO>;
+		HANDLE_REGISTRY: DurableObjectNamespace<import("./src/worker").HandleRegistryDO>;
+		USER_DIRECTORY: DurableObjectNamespace<import("./src/worker").UserDirectoryDO>;
 		ASSETS: Fetcher;
 	}
 }